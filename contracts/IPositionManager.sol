@@ -2,13 +2,14 @@
 pragma solidity 0.8.10;
 
 import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import "./amm/ITempusAMM.sol";
 import "./ITempusPool.sol";
 
 /// @dev The Position Manager's purpose is to allow depositing funds to a Tempus Pool
 /// and wrapping the minted Capitals and Yields into a non-fungible ERC721 token
-interface IPositionManager is IERC721, IERC721Metadata {
+interface IPositionManager is IERC721, IERC721Metadata, IERC721Enumerable {
     /// @dev Provided Leverage Multiplier is invalid
     error InvalidLeverageMultiplier();
     /// @dev Unauthorized position burn attempt
@@ -17,15 +18,21 @@ interface IPositionManager is IERC721, IERC721Metadata {
     error AmmSharesPoolMismatch();
     /// @dev An invalid Tempus Controller was provided
     error InvalidTempusController();
+    /// @dev Unauthorized attempt to increase or decrease a position
+    error UnauthorizedPositionUpdate();
+    /// @dev Provided fraction of a position is not between 0 and 1e18 (exclusive)
+    error InvalidFraction(uint256 fraction);
 
     /// @dev Holds information about an open position
     /// @param capitals Amount of Capitals owned by the position
     /// @param yields Amount of Yields owned by the position
     /// @param tempusAMM The Tempus AMM used to create the position
+    /// @param depositedBackingTokens Value of the deposit denominated in Backing Tokens at the time of minting
     struct Position {
         uint128 capitals;
         uint128 yields;
         ITempusAMM tempusAMM;
+        uint128 depositedBackingTokens;
     }
 
     /// @param tempusAMM the Tempus AMM (and its Tempus Pool) to use for position creation
@@ -45,6 +52,19 @@ interface IPositionManager is IERC721, IERC721Metadata {
         bool isBackingToken;
     }
 
+    /// @param leverageMultiplier For fixed positions, use leverageMultiplier = 0; For levarged positions, use leverageMultiplier > 1e18
+    /// @param tokenAmountToDeposit Token amount to be deposited intto the Tempus Pool
+    /// @param worstAcceptableCapitalsRate Worst acceptable Capitals rate for the internal Capitals <--> Yields swap
+    /// @param deadline A timestamp by which, if a swap is necessary, the transaction must be completed
+    /// @param isBackingToken Specfies whether to deposit Backing Tokens or Yield Bearing Tokens
+    struct IncreaseParams {
+        uint256 leverageMultiplier;
+        uint256 tokenAmountToDeposit;
+        uint256 worstAcceptableCapitalsRate;
+        uint256 deadline;
+        bool isBackingToken;
+    }
+
     /// @param maxLeftoverShares Maximum amount of Principals/Yields to be left in case early exit swap is necessary
     /// @param yieldsRate Base exchange rate of Yields (denominated in Capitals)
     /// @param maxSlippage Maximum allowed change in the exchange rate from the base yieldsRate (1e18 precision)
@@ -75,6 +95,30 @@ interface IPositionManager is IERC721, IERC721Metadata {
     /// @return liquidatedTokenAmount as a result of burning the position
     function burn(uint256 tokenId, BurnParams calldata params) external returns (uint256 liquidatedTokenAmount);
 
+    /// @dev Deposits additional funds into the Tempus Pool of an existing position
+    ///      and adds the received Capitals and Yields to the position
+    /// @notice fixed rate positions can only be increased with leverageMultiplier = 0,
+    ///         leveraged positions can only be increased with leverageMultiplier > 1e18.
+    /// @param tokenId Token ID of the position to increase
+    /// @param params Instructions for the deposit
+    function increase(uint256 tokenId, IncreaseParams calldata params) external payable;
+
+    /// @dev Liquidates a fraction of a position to the recipient, the remainder stays in the position
+    /// @param tokenId Token ID of the position to decrease
+    /// @param fraction Fraction of the Capitals and Yields to liquidate (1e18 precision), must be less than 1e18
+    /// @param params Instructions for the liquidation
+    /// @return liquidatedTokenAmount as a result of decreasing the position
+    function decrease(
+        uint256 tokenId,
+        uint256 fraction,
+        BurnParams calldata params
+    ) external returns (uint256 liquidatedTokenAmount);
+
     /// @dev retrieves position data for a given token ID.
     function position(uint256 tokenId) external view returns (Position memory);
+
+    /// @dev retrieves all token IDs owned by a given address
+    /// @param owner The owner of the positions
+    /// @return tokenIds of the positions owned by `owner`
+    function tokensOfOwner(address owner) external view returns (uint256[] memory tokenIds);
 }
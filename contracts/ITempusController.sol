@@ -52,6 +52,60 @@ interface ITempusController is IERC165 {
         bool isEarlyRedeem
     );
 
+    /// @dev Event emitted on a successful rollover from a matured pool to the next pool.
+    /// @param maturedPool The matured Tempus Pool from which shares and LP tokens were redeemed
+    /// @param nextPool The Tempus Pool to which the redeemed Yield Bearing Tokens were deposited
+    /// @param user Address of the user whose shares and LP tokens were rolled over
+    /// @param yieldTokenAmount Amount of Yield Bearing Tokens deposited to `nextPool`
+    /// @param principalsReceived Amount of Principals of `nextPool` received by the user
+    /// @param yieldsReceived Amount of Yields of `nextPool` received by the user
+    /// @param isFixed True if the minted Yields were swapped for Principals
+    event RolledOver(
+        address indexed maturedPool,
+        address indexed nextPool,
+        address indexed user,
+        uint256 yieldTokenAmount,
+        uint256 principalsReceived,
+        uint256 yieldsReceived,
+        bool isFixed
+    );
+
+    /// @dev Parameters of `rollover`
+    /// @param maturedPool The matured Tempus Pool to redeem from
+    /// @param maturedAMM Tempus AMM of `maturedPool`, only used if `lpTokens > 0`
+    /// @param nextPool Tempus Pool with the same Yield Bearing Token to deposit into
+    /// @param nextAMM Tempus AMM of `nextPool`, only used if `fix == true`
+    /// @param lpTokens Amount of LP tokens of `maturedAMM` to exit
+    /// @param principals Amount of Principals of `maturedPool` to redeem
+    /// @param yields Amount of Yields of `maturedPool` to redeem
+    /// @param minPrincipalsStaked Minimum amount of Principals received for `lpTokens`
+    /// @param minYieldsStaked Minimum amount of Yields received for `lpTokens`
+    /// @param fix If true, the Yields minted by `nextPool` are swapped for Principals, like in `depositAndFix`
+    /// @param minTYSRate Minimum TYS rate (denominated in TPS) to receive in exchange to TPS, only used if `fix == true`
+    /// @param deadline A timestamp by which the swap must be completed, only used if `fix == true`
+    struct RolloverParams {
+        ITempusPool maturedPool;
+        ITempusAMM maturedAMM;
+        ITempusPool nextPool;
+        ITempusAMM nextAMM;
+        uint256 lpTokens;
+        uint256 principals;
+        uint256 yields;
+        uint256 minPrincipalsStaked;
+        uint256 minYieldsStaked;
+        bool fix;
+        uint256 minTYSRate;
+        uint256 deadline;
+    }
+
+    /// @dev A single call of `multicall`
+    /// @param data ABI encoded call of a TempusController function
+    /// @param value ETH value used by this call, instead of the whole `msg.value` of the multicall
+    struct Call {
+        bytes data;
+        uint256 value;
+    }
+
     /// @dev Error thrown when an unregistered contract is provided to the controller
     /// @param deniedContract The address of the unregistered contract
     error UnauthorizedContract(address deniedContract);
@@ -134,6 +188,33 @@ interface ITempusController is IERC165 {
     /// @param maxLeftoverShares The maximum leftover shares provided
     error MaxLeftoverSharesTooBig(uint256 maxLeftoverShares);
 
+    /// @dev Error thrown when rolling over from a pool which has not matured yet
+    /// @param tempusPool The Tempus Pool which has not matured
+    error PoolNotMatured(ITempusPool tempusPool);
+
+    /// @dev Error thrown when rolling over between pools of different Yield Bearing Tokens
+    /// @param maturedPool The matured Tempus Pool
+    /// @param nextPool The Tempus Pool to roll over to
+    error YieldBearingTokenMismatch(ITempusPool maturedPool, ITempusPool nextPool);
+
+    /// @dev Error thrown when a Tempus AMM does not belong to the Tempus Pool it is used with
+    /// @param tempusAMM The Tempus AMM
+    /// @param tempusPool The Tempus Pool the AMM was expected to belong to
+    error AMMPoolMismatch(ITempusAMM tempusAMM, ITempusPool tempusPool);
+
+    /// @dev Error thrown when the sum of ETH values of a multicall does not match the sent ETH
+    /// @param ethValue The sent ETH value
+    /// @param totalCallsValue Sum of ETH values of all calls
+    error MulticallValueMismatch(uint256 ethValue, uint256 totalCallsValue);
+
+    /// @dev Error thrown when `multicall` is called from within a multicall
+    error NestedMulticall();
+
+    /// @dev Error thrown when a call of a multicall reverts
+    /// @param index Index of the failed call
+    /// @param reason Revert data of the failed call
+    error MulticallFailed(uint256 index, bytes reason);
+
     /// @dev Registers a POOL or an AMM as valid or invalid to use with this Controller
     /// @param authorizedContract Contract which will be allowed to be used inside this Controller
     /// @param isValid If true, contract is valid to be used, if false, it's not allowed anymore
@@ -314,4 +395,27 @@ interface ITempusController is IERC165 {
         bool toBackingToken,
         uint256 deadline
     ) external returns (uint256);
+
+    /// @dev Atomically redeems Principals, Yields and optionally LP tokens from a matured pool to Yield Bearing Tokens
+    ///      and deposits them to the next pool with the same Yield Bearing Token, optionally fixing the yield.
+    ///      Caller must approve the controller to transfer its Principals, Yields and LP tokens of the matured pool.
+    /// @param params Matured and next pools with the amounts to roll over, see `RolloverParams`
+    /// @return mintedShares Amount of Principals and Yields minted by the next pool
+    /// @return principalsReceived Amount of Principals of the next pool sent to the caller
+    /// @return yieldsReceived Amount of Yields of the next pool sent to the caller, zero if fixed
+    function rollover(RolloverParams calldata params)
+        external
+        returns (
+            uint256 mintedShares,
+            uint256 principalsReceived,
+            uint256 yieldsReceived
+        );
+
+    /// @dev Atomically executes multiple calls of this controller in a single transaction,
+    ///      on behalf of the caller, so the caller needs a single approval per token for all of them.
+    ///      If any of the calls reverts, the whole multicall reverts with `MulticallFailed`.
+    /// @notice When sending ETH, every call must be to a payable function, since `msg.value` is shared
+    /// @param calls Encoded calls with the ETH value to use for each, values must add up to `msg.value`
+    /// @return results Return data of each call
+    function multicall(Call[] calldata calls) external payable returns (bytes[] memory results);
 }
@@ -110,6 +110,13 @@ interface ITempusPool is ITempusFees, IERC165 {
     /// @param actualDecimals The actual decimals
     error DecimalsPrecisionMismatch(IERC20 token, uint256 expectedDecimals, uint256 actualDecimals);
 
+    /// @dev Error thrown when the new value weight of the interest rate moving average is more than 1.0
+    /// @param newValueWeight The new value weight given
+    error InvalidMovingAverageWeight(uint256 newValueWeight);
+
+    /// @dev Error thrown when the interest rate moving average is enabled with a zero update interval
+    error ZeroMovingAverageInterval();
+
     /// @return The name of underlying protocol, for example "Aave" for Aave protocol
     function protocolName() external view returns (bytes32);
 
@@ -299,6 +306,25 @@ interface ITempusPool is ITempusFees, IERC165 {
     ///         decimal precision depends on specific TempusPool implementation
     function maturityInterestRate() external view returns (uint256);
 
+    /// Exponential moving average of the interest rate, used instead of the current interest rate
+    /// to estimate the yield at maturity, so that noisy interest rate updates don't swing share prices.
+    /// It is updated with every updateInterestRate() call, but at most once per update interval.
+    /// @return Moving average of the interest rate, or the current interest rate if the average is disabled,
+    ///         decimal precision depends on specific TempusPool implementation
+    function interestRateAverage() external view returns (uint256);
+
+    /// @return newValueWeight Weight of new interest rates in the moving average, as an 1e18 decimal,
+    ///                        zero if the moving average is disabled
+    /// @return updateInterval Minimum time between moving average updates, in seconds
+    function interestRateAverageConfig() external view returns (uint256 newValueWeight, uint256 updateInterval);
+
+    /// Configures the interest rate moving average, by default it is disabled.
+    /// The average restarts from the current interest rate with the next update.
+    /// @param newValueWeight Weight of new interest rates as an 1e18 decimal, zero disables the moving average
+    /// @param updateInterval Minimum time between moving average updates, in seconds
+    /// @notice This function can only be called by the owner.
+    function setInterestRateAverageConfig(uint256 newValueWeight, uint256 updateInterval) external;
+
     /// @return Rate of one Tempus Yield Share expressed in Asset Tokens
     function pricePerYieldShare() external returns (uint256);
 
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BUSL-1.1
 pragma solidity 0.8.10;
 
-import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
@@ -11,9 +11,11 @@ import "./ITempusController.sol";
 import "./IPositionManager.sol";
 import "./utils/UntrustedERC20.sol";
 import "./math/Fixed256xVar.sol";
+import "./math/Fixed256x18.sol";
 
-contract PositionManager is IPositionManager, ERC721, ReentrancyGuard {
+contract PositionManager is IPositionManager, ERC721Enumerable, ReentrancyGuard {
     using Fixed256xVar for uint256;
+    using Fixed256x18 for uint256;
     using SafeERC20 for IERC20Metadata;
     using UntrustedERC20 for IERC20Metadata;
 
@@ -39,6 +41,119 @@ contract PositionManager is IPositionManager, ERC721, ReentrancyGuard {
             revert AmmSharesPoolMismatch();
         }
 
+        (uint256 capitalsReceived, uint256 yieldsReceived, uint256 depositedBackingTokens) = _deposit(
+            params,
+            tempusPool
+        );
+
+        tokenId = _nextId++;
+        _positions[tokenId] = Position({
+            capitals: SafeCast.toUint128(capitalsReceived),
+            yields: SafeCast.toUint128(yieldsReceived),
+            tempusAMM: params.tempusAMM,
+            depositedBackingTokens: SafeCast.toUint128(depositedBackingTokens)
+        });
+
+        _safeMint(params.recipient, tokenId);
+    }
+
+    function increase(uint256 tokenId, IncreaseParams calldata params) external payable override nonReentrant {
+        if (!_isApprovedOrOwner(msg.sender, tokenId)) {
+            revert UnauthorizedPositionUpdate();
+        }
+
+        Position storage p = _positions[tokenId];
+        // fixed rate positions hold no Yields, so they can only be increased by a fixed rate deposit
+        if ((p.yields == 0) != (params.leverageMultiplier == 0)) {
+            revert InvalidLeverageMultiplier();
+        }
+
+        ITempusAMM tempusAMM = p.tempusAMM;
+        (uint256 capitalsReceived, uint256 yieldsReceived, uint256 depositedBackingTokens) = _deposit(
+            MintParams({
+                tempusAMM: tempusAMM,
+                leverageMultiplier: params.leverageMultiplier,
+                tokenAmountToDeposit: params.tokenAmountToDeposit,
+                worstAcceptableCapitalsRate: params.worstAcceptableCapitalsRate,
+                deadline: params.deadline,
+                recipient: address(0), // unused, the position keeps its owner
+                isBackingToken: params.isBackingToken
+            }),
+            tempusAMM.token0().pool()
+        );
+
+        p.capitals += SafeCast.toUint128(capitalsReceived);
+        p.yields += SafeCast.toUint128(yieldsReceived);
+        p.depositedBackingTokens += SafeCast.toUint128(depositedBackingTokens);
+    }
+
+    function decrease(
+        uint256 tokenId,
+        uint256 fraction,
+        BurnParams calldata params
+    ) external override nonReentrant returns (uint256 liquidatedTokenAmount) {
+        if (!_isApprovedOrOwner(msg.sender, tokenId)) {
+            revert UnauthorizedPositionUpdate();
+        }
+        if (fraction == 0 || fraction >= Fixed256x18.ONE) {
+            revert InvalidFraction(fraction);
+        }
+
+        Position storage p = _positions[tokenId];
+        uint128 capitals = SafeCast.toUint128(uint256(p.capitals).mulDown(fraction));
+        uint128 yields = SafeCast.toUint128(uint256(p.yields).mulDown(fraction));
+
+        p.capitals -= capitals;
+        p.yields -= yields;
+        p.depositedBackingTokens -= SafeCast.toUint128(uint256(p.depositedBackingTokens).mulDown(fraction));
+
+        ITempusAMM tempusAMM = p.tempusAMM;
+        liquidatedTokenAmount = _liquidatePosition(tempusAMM, tempusAMM.token0().pool(), capitals, yields, params);
+    }
+
+    function burn(uint256 tokenId, BurnParams calldata params)
+        external
+        override
+        nonReentrant
+        returns (uint256 liquidatedTokenAmount)
+    {
+        if (!_isApprovedOrOwner(msg.sender, tokenId)) {
+            revert UnauthorizedBurn();
+        }
+
+        Position memory p = _positions[tokenId];
+
+        delete _positions[tokenId];
+        _burn(tokenId);
+
+        ITempusPool tempusPool = p.tempusAMM.token0().pool();
+        liquidatedTokenAmount = _liquidatePosition(p.tempusAMM, tempusPool, p.capitals, p.yields, params);
+    }
+
+    function position(uint256 tokenId) external view override returns (Position memory) {
+        return _positions[tokenId];
+    }
+
+    function tokensOfOwner(address owner) external view override returns (uint256[] memory tokenIds) {
+        uint256 numPositions = balanceOf(owner);
+        tokenIds = new uint256[](numPositions);
+        for (uint256 i = 0; i < numPositions; i++) {
+            tokenIds[i] = tokenOfOwnerByIndex(owner, i);
+        }
+    }
+
+    /// @dev Collects the deposit from msg.sender and deposits it through the controller
+    /// @return capitalsReceived Capitals received for the deposit
+    /// @return yieldsReceived Yields received for the deposit, zero for fixed rate deposits
+    /// @return depositedBackingTokens Value of the deposit denominated in Backing Tokens
+    function _deposit(MintParams memory params, ITempusPool tempusPool)
+        private
+        returns (
+            uint256 capitalsReceived,
+            uint256 yieldsReceived,
+            uint256 depositedBackingTokens
+        )
+    {
         uint256 tokenAmountToDeposit = msg.value;
         {
             IERC20Metadata depositedAsset = params.isBackingToken
@@ -55,8 +170,6 @@ contract PositionManager is IPositionManager, ERC721, ReentrancyGuard {
             }
         }
 
-        uint256 capitalsReceived;
-        uint256 yieldsReceived;
         if (params.leverageMultiplier == 0) {
             uint256 backingTokenONE = tempusPool.backingTokenONE();
             (, capitalsReceived) = controller.depositAndFix{value: msg.value}(
@@ -81,37 +194,18 @@ contract PositionManager is IPositionManager, ERC721, ReentrancyGuard {
             revert InvalidLeverageMultiplier();
         }
 
-        tokenId = _nextId++;
-        _positions[tokenId] = Position({
-            capitals: SafeCast.toUint128(capitalsReceived),
-            yields: SafeCast.toUint128(yieldsReceived),
-            tempusAMM: params.tempusAMM
-        });
-
-        _safeMint(params.recipient, tokenId);
+        depositedBackingTokens = _depositedBackingTokens(tempusPool, tokenAmountToDeposit, params.isBackingToken);
     }
 
-    function burn(uint256 tokenId, BurnParams calldata params)
-        external
-        override
-        nonReentrant
-        returns (uint256 liquidatedTokenAmount)
-    {
-        if (!_isApprovedOrOwner(msg.sender, tokenId)) {
-            revert UnauthorizedBurn();
+    function _depositedBackingTokens(
+        ITempusPool tempusPool,
+        uint256 tokenAmount,
+        bool isBackingToken
+    ) private view returns (uint256) {
+        if (isBackingToken) {
+            return tokenAmount;
         }
-
-        Position memory p = _positions[tokenId];
-
-        delete _positions[tokenId];
-        _burn(tokenId);
-
-        ITempusPool tempusPool = p.tempusAMM.token0().pool();
-        liquidatedTokenAmount = _liquidatePosition(p.tempusAMM, tempusPool, p.capitals, p.yields, params);
-    }
-
-    function position(uint256 tokenId) external view override returns (Position memory) {
-        return _positions[tokenId];
+        return tempusPool.numAssetsPerYieldToken(tokenAmount, tempusPool.currentInterestRate());
     }
 
     function _liquidatePosition(
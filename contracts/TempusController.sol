@@ -21,6 +21,11 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
     /// Registry for valid pools and AMM's to avoid fake address injection
     mapping(address => bool) private registry;
 
+    /// ETH value of the current call while executing `multicall`
+    uint256 private multicallValue;
+    /// True while executing `multicall`
+    bool private inMulticall;
+
     constructor() {}
 
     function register(address contractAddress, bool isValid) public override onlyOwner {
@@ -35,6 +40,16 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
         }
     }
 
+    /// @dev Validates that the provided AMM is registered and belongs to the provided pool
+    /// @param tempusAMM Tempus AMM to check
+    /// @param tempusPool Tempus Pool the AMM should belong to
+    function requireAMMOfPool(ITempusAMM tempusAMM, ITempusPool tempusPool) private view {
+        requireRegistered(address(tempusAMM));
+        if (tempusAMM.token0().pool() != tempusPool) {
+            revert AMMPoolMismatch(tempusAMM, tempusPool);
+        }
+    }
+
     function depositAndProvideLiquidity(
         ITempusAMM tempusAMM,
         ITempusPool tempusPool,
@@ -234,6 +249,112 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
             );
     }
 
+    function rollover(RolloverParams calldata params)
+        external
+        override
+        nonReentrant
+        returns (
+            uint256 mintedShares,
+            uint256 principalsReceived,
+            uint256 yieldsReceived
+        )
+    {
+        requireRegistered(address(params.maturedPool));
+        requireRegistered(address(params.nextPool));
+
+        if (!params.maturedPool.matured()) {
+            revert PoolNotMatured(params.maturedPool);
+        }
+        if (params.maturedPool.yieldBearingToken() != params.nextPool.yieldBearingToken()) {
+            revert YieldBearingTokenMismatch(params.maturedPool, params.nextPool);
+        }
+
+        uint256 yieldTokenAmount = _rolloverRedeem(params);
+        (mintedShares, principalsReceived, yieldsReceived) = _rolloverDeposit(params, yieldTokenAmount);
+
+        emit RolledOver(
+            address(params.maturedPool),
+            address(params.nextPool),
+            msg.sender,
+            yieldTokenAmount,
+            principalsReceived,
+            yieldsReceived,
+            params.fix
+        );
+    }
+
+    /// @dev Collects the caller's shares and LP tokens of the matured pool and redeems them to this controller
+    /// @return Amount of redeemed Yield Bearing Tokens
+    function _rolloverRedeem(RolloverParams calldata params) private returns (uint256) {
+        IPoolShare principalShare = params.maturedPool.principalShare();
+        IPoolShare yieldShare = params.maturedPool.yieldShare();
+        uint256 principalsBefore = principalShare.balanceOf(address(this));
+        uint256 yieldsBefore = yieldShare.balanceOf(address(this));
+
+        if (params.lpTokens > 0) {
+            requireAMMOfPool(params.maturedAMM, params.maturedPool);
+            if (!params.maturedAMM.transferFrom(msg.sender, address(this), params.lpTokens)) {
+                revert FailedLPTokensTransfer(msg.sender, address(this), params.lpTokens);
+            }
+            params.maturedAMM.exitGivenLpIn(
+                params.lpTokens,
+                params.minPrincipalsStaked,
+                params.minYieldsStaked,
+                address(this)
+            );
+        }
+
+        if (!principalShare.transferFrom(msg.sender, address(this), params.principals)) {
+            revert FailedPrincipalTokensTransfer(msg.sender, this, params.principals);
+        }
+        if (!yieldShare.transferFrom(msg.sender, address(this), params.yields)) {
+            revert FailedYieldTokensTransfer(msg.sender, this, params.yields);
+        }
+
+        // only the shares collected by this call are redeemed
+        uint256 principals = principalShare.balanceOf(address(this)) - principalsBefore;
+        uint256 yields = yieldShare.balanceOf(address(this)) - yieldsBefore;
+        if (principals == 0 && yields == 0) {
+            revert ZeroPrincipalAndYieldAmounts();
+        }
+
+        // matured pools redeem any ratio of Principals and Yields
+        (uint256 redeemedYBT, , ) = params.maturedPool.redeem(address(this), principals, yields, address(this));
+        return redeemedYBT;
+    }
+
+    /// @dev Deposits the redeemed Yield Bearing Tokens to the next pool and optionally fixes the yield
+    function _rolloverDeposit(RolloverParams calldata params, uint256 yieldTokenAmount)
+        private
+        returns (
+            uint256 mintedShares,
+            uint256 principalsReceived,
+            uint256 yieldsReceived
+        )
+    {
+        uint256 transferredYBT = params.nextPool.yieldBearingToken().untrustedTransfer(
+            address(params.nextPool),
+            yieldTokenAmount
+        );
+
+        IPoolShare principalShare = params.nextPool.principalShare();
+        uint256 principalsBefore = principalShare.balanceOf(address(this));
+        address recipient = params.fix ? address(this) : msg.sender;
+        (mintedShares, , , ) = params.nextPool.onDepositYieldBearing(transferredYBT, recipient);
+
+        if (!params.fix) {
+            return (mintedShares, mintedShares, mintedShares);
+        }
+
+        requireAMMOfPool(params.nextAMM, params.nextPool);
+        uint256 minReturn = mintedShares.mulfV(params.minTYSRate, params.nextPool.backingTokenONE());
+        swap(params.nextAMM, mintedShares, params.nextPool.yieldShare(), minReturn, params.deadline);
+
+        principalsReceived = principalShare.balanceOf(address(this)) - principalsBefore;
+        assert(principalsReceived > 0);
+        principalShare.transfer(msg.sender, principalsReceived);
+    }
+
     function swap(
         ITempusAMM tempusAMM,
         uint256 swapAmount,
@@ -360,9 +481,9 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
 
         // In case the underlying pool expects deposits in Ether (e.g. Lido),
         // it uses `backingToken = address(0)`.  Since we disallow 0-value deposits,
-        // and `msg.value == backingTokenAmount`, this check here can be used to
+        // and `_msgValue() == backingTokenAmount`, this check here can be used to
         // distinguish between the two pool types.
-        if (msg.value == 0) {
+        if (_msgValue() == 0) {
             // NOTE: We need to have this check here to avoid calling transfer on address(0),
             //       because that always succeeds.
             if (address(backingToken) == address(0)) {
@@ -378,13 +499,13 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
             if (address(backingToken) != address(0)) {
                 revert NonZeroAddressBackingToken();
             }
-            if (msg.value != backingTokenAmount) {
-                revert EtherValueAndBackingTokenAmountMismatch(msg.value, backingTokenAmount);
+            if (_msgValue() != backingTokenAmount) {
+                revert EtherValueAndBackingTokenAmountMismatch(_msgValue(), backingTokenAmount);
             }
         }
 
         (uint256 mintedShares, uint256 depositedYBT, uint256 fee, uint256 interestRate) = tempusPool.onDepositBacking{
-            value: msg.value
+            value: _msgValue()
         }(backingTokenAmount, recipient);
 
         emit Deposited(
@@ -578,6 +699,41 @@ contract TempusController is ITempusController, ReentrancyGuard, Ownable {
         }
     }
 
+    function multicall(Call[] calldata calls) external payable override returns (bytes[] memory results) {
+        if (inMulticall) {
+            revert NestedMulticall();
+        }
+
+        uint256 totalCallsValue;
+        for (uint256 i = 0; i < calls.length; i++) {
+            totalCallsValue += calls[i].value;
+        }
+        if (totalCallsValue != msg.value) {
+            revert MulticallValueMismatch(msg.value, totalCallsValue);
+        }
+
+        // every call is re-entrancy guarded separately, so the multicall itself is not
+        inMulticall = true;
+        results = new bytes[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            multicallValue = calls[i].value;
+            // solhint-disable-next-line avoid-low-level-calls
+            (bool success, bytes memory result) = address(this).delegatecall(calls[i].data);
+            if (!success) {
+                revert MulticallFailed(i, result);
+            }
+            results[i] = result;
+        }
+        multicallValue = 0;
+        inMulticall = false;
+    }
+
+    /// @dev Within `multicall`, each call only uses its own share of the sent ETH
+    /// @return ETH value available to the current call
+    function _msgValue() private view returns (uint256) {
+        return inMulticall ? multicallValue : msg.value;
+    }
+
     function supportsInterface(bytes4 interfaceId) external view override returns (bool) {
         return interfaceId == type(ITempusController).interfaceId;
     }
@@ -10,6 +10,7 @@ import "./ITempusPool.sol";
 import "./token/PrincipalShare.sol";
 import "./token/YieldShare.sol";
 import "./math/Fixed256xVar.sol";
+import "./math/MovingAverage.sol";
 import "./utils/Ownable.sol";
 import "./utils/UntrustedERC20.sol";
 
@@ -58,6 +59,10 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
     /// Timestamp when the negative yield period was entered.
     uint256 private negativeYieldStartTime;
 
+    /// Moving average of the interest rate, disabled while its newValueWeight is zero
+    EMAState private interestRateEMA;
+    uint256 private interestRateEMAUpdateInterval;
+
     error YieldShareCalculationFailure();
 
     /// Constructs Pool with underlying token, start and maturity date
@@ -189,6 +194,14 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
         virtual
         returns (uint256 backingTokenAmount);
 
+    /// @dev Transfers Yield Bearing Tokens held by this pool
+    /// @param recipient Address which receives the Yield Bearing Tokens
+    /// @param amount Amount of Yield Bearing Tokens to transfer
+    /// @return Amount of Yield Bearing Tokens which were actually transferred
+    function transferYieldBearing(address recipient, uint256 amount) internal virtual returns (uint256) {
+        return yieldBearingToken.untrustedTransfer(recipient, amount);
+    }
+
     function matured() public view override returns (bool) {
         return (block.timestamp >= maturityTime) || (block.timestamp >= exceptionalHaltTime);
     }
@@ -210,10 +223,31 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
         feesConfig = newFeesConfig;
     }
 
+    function interestRateAverageConfig()
+        external
+        view
+        override
+        returns (uint256 newValueWeight, uint256 updateInterval)
+    {
+        return (interestRateEMA.newValueWeight, interestRateEMAUpdateInterval);
+    }
+
+    function setInterestRateAverageConfig(uint256 newValueWeight, uint256 updateInterval) external override onlyOwner {
+        if (newValueWeight > 1e18) {
+            revert InvalidMovingAverageWeight(newValueWeight);
+        }
+        if (newValueWeight != 0 && updateInterval == 0) {
+            revert ZeroMovingAverageInterval();
+        }
+        interestRateEMA.newValueWeight = newValueWeight;
+        interestRateEMA.lastUpdateTime = 0; // next update restarts the average from the current interest rate
+        interestRateEMAUpdateInterval = updateInterval;
+    }
+
     function transferFees(address recipient) external override nonReentrant onlyOwner {
         uint256 amount = totalFees;
         totalFees = 0;
-        yieldBearingToken.safeTransfer(recipient, amount);
+        transferYieldBearing(recipient, amount);
     }
 
     function onDepositBacking(uint256 backingTokenAmount, address recipient)
@@ -332,7 +366,7 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
     {
         (redeemedYieldTokens, fee, rate) = burnShares(from, principalAmount, yieldAmount);
 
-        redeemedYieldTokens = yieldBearingToken.untrustedTransfer(recipient, redeemedYieldTokens);
+        redeemedYieldTokens = transferYieldBearing(recipient, redeemedYieldTokens);
     }
 
     function finalize() public override {
@@ -447,26 +481,15 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
         return effectiveRate(interestRate).divfV(initialInterestRate, exchangeRateONE);
     }
 
-    function currentYield() private returns (uint256) {
-        return currentYield(updateInterestRate());
-    }
-
-    function currentYieldStored() private view returns (uint256) {
-        return currentYield(currentInterestRate());
-    }
-
-    function estimatedYieldStored() private view returns (uint256) {
-        return estimatedYield(currentYieldStored());
-    }
-
-    /// @dev Calculates estimated yield at maturity
+    /// @dev Calculates estimated yield at maturity, extrapolated from the interest rate moving average
     /// @notice Includes principal, so in case of 5% yield it returns 1.05
-    /// @param yieldCurrent Current yield - since beginning of the pool
+    /// @param interestRate Current interest rate of the underlying protocol
     /// @return Estimated yield at maturity relative to 1, such as 1.05 (+5%) or 0.97 (-3%)
-    function estimatedYield(uint256 yieldCurrent) private view returns (uint256) {
+    function estimatedYield(uint256 interestRate) private view returns (uint256) {
         if (matured()) {
-            return yieldCurrent;
+            return currentYield(interestRate);
         }
+        uint256 yieldCurrent = currentYield(smoothedInterestRate(interestRate));
         uint256 currentTime = block.timestamp;
         uint256 timeToMaturity;
         uint256 poolDuration;
@@ -503,23 +526,36 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
     }
 
     function pricePerYieldShare() external override returns (uint256) {
-        uint256 yield = currentYield();
-        return pricePerYieldShare(yield, estimatedYield(yield));
+        uint256 rate = updateInterestRate();
+        return pricePerYieldShare(currentYield(rate), estimatedYield(rate));
     }
 
     function pricePerYieldShareStored() external view override returns (uint256) {
-        uint256 yield = currentYieldStored();
-        return pricePerYieldShare(yield, estimatedYield(yield));
+        uint256 rate = currentInterestRate();
+        return pricePerYieldShare(currentYield(rate), estimatedYield(rate));
     }
 
     function pricePerPrincipalShare() external override returns (uint256) {
-        uint256 yield = currentYield();
-        return pricePerPrincipalShare(yield, estimatedYield(yield));
+        uint256 rate = updateInterestRate();
+        return pricePerPrincipalShare(currentYield(rate), estimatedYield(rate));
     }
 
     function pricePerPrincipalShareStored() external view override returns (uint256) {
-        uint256 yield = currentYieldStored();
-        return pricePerPrincipalShare(yield, estimatedYield(yield));
+        uint256 rate = currentInterestRate();
+        return pricePerPrincipalShare(currentYield(rate), estimatedYield(rate));
+    }
+
+    function interestRateAverage() external view override returns (uint256) {
+        return smoothedInterestRate(currentInterestRate());
+    }
+
+    /// @param interestRate Current interest rate of the underlying protocol
+    /// @return Moving average of the interest rate, or `interestRate` if the average is disabled or not set yet
+    function smoothedInterestRate(uint256 interestRate) private view returns (uint256) {
+        return
+            (interestRateEMA.newValueWeight == 0 || interestRateEMA.lastUpdateTime == 0)
+                ? interestRate
+                : interestRateEMA.value;
     }
 
     function numSharesToMint(uint256 depositedBT, uint256 currentRate) private view returns (uint256) {
@@ -590,11 +626,20 @@ abstract contract TempusPool is ITempusPool, ReentrancyGuard, Ownable {
         return (false, true);
     }
 
-    /// @dev This updates the underlying pool's interest rate
+    /// @dev This updates the underlying pool's interest rate and the interest rate moving average
     ///      It is done first thing before deposit/redeem to avoid arbitrage
     ///      It is available to call publically to periodically update interest rates in cases of low volume
+    /// @return rate Updated current Interest Rate, decimal precision depends on specific TempusPool implementation
+    function updateInterestRate() public override returns (uint256 rate) {
+        rate = updateUnderlyingInterestRate();
+        if (interestRateEMA.newValueWeight != 0) {
+            MovingAverage.EMA(interestRateEMA, rate, interestRateEMAUpdateInterval);
+        }
+    }
+
+    /// @dev This updates the underlying pool's interest rate
     /// @return Updated current Interest Rate, decimal precision depends on specific TempusPool implementation
-    function updateInterestRate() public virtual override returns (uint256);
+    function updateUnderlyingInterestRate() internal virtual returns (uint256);
 
     /// @dev This returns the stored Interest Rate of the YBT (Yield Bearing Token) pool
     ///      it is safe to call this after updateInterestRate() was called
@@ -130,6 +130,14 @@ interface ITempusAMM is IERC20, IERC20Permit, IOwnable {
     /// @dev Error thrown when the amplification value does not have an ongoing update
     error NoAmplificationValueOngoingUpdate();
 
+    /// @dev Error thrown when the price oracle is queried for a zero length period
+    error ZeroOraclePeriod();
+
+    /// @dev Error thrown when the price oracle has no observations old enough for the queried period
+    /// @param periodStart Timestamp of the start of the queried period
+    /// @param oldestObservation Timestamp of the oldest stored observation
+    error OracleObservationTooOld(uint256 periodStart, uint256 oldestObservation);
+
     /// first token in TempusAMM pair
     function token0() external view returns (IPoolShare);
 
@@ -249,6 +257,14 @@ interface ITempusAMM is IERC20, IERC20Permit, IOwnable {
         view
         returns (uint256 token0Amount, uint256 token1Amount);
 
+    /// @dev Time-weighted average prices of the pool tokens over the last `secondsAgo` seconds.
+    ///      Cumulative prices are updated before the first swap, join or exit of every block,
+    ///      so price changes only count from the next block and can't be manipulated within a single block.
+    /// @param secondsAgo Length of the averaging period in seconds
+    /// @return token0Price Average price of token0 denominated in token1, with 18 decimals precision
+    /// @return token1Price Average price of token1 denominated in token0, with 18 decimals precision
+    function consult(uint256 secondsAgo) external view returns (uint256 token0Price, uint256 token1Price);
+
     /// Begins changing the amplification parameter to `endValue` over time. The value will change linearly until
     /// `endTime` is reached, when it will be `endValue`
     /// @param endValue end value of amplification parameter
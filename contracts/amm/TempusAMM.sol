@@ -46,6 +46,9 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
     // Maximum swap fee is set to 5%
     uint256 private constant MAX_SWAP_FEE_PERCENTAGE = 0.05e18;
 
+    // Number of cumulative price observations kept by the price oracle, at most one observation per block
+    uint256 private constant OBSERVATION_CARDINALITY = 64;
+
     // fixed point precision of TempusShare tokens
     uint256 private immutable TEMPUS_SHARE_PRECISION;
 
@@ -58,6 +61,18 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
 
     AmplificationData private amplificationData;
 
+    // Cumulative prices are sums of 18 decimal prices multiplied by seconds elapsed, they are allowed to overflow
+    // as only differences between two observations are used.
+    struct Observation {
+        uint32 timestamp;
+        uint112 token0PriceCumulative;
+        uint112 token1PriceCumulative;
+    }
+
+    Observation[OBSERVATION_CARDINALITY] private observations;
+    uint16 private observationIndex;
+    uint16 private observationCount;
+
     IPoolShare public immutable token0;
     IPoolShare public immutable token1;
 
@@ -114,6 +129,8 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
         uint256 minLpTokensOut,
         address recipient
     ) external override whenNotPaused {
+        updateOracle();
+
         (uint256 amountIn0, uint256 amountIn1) = getRateAdjustedAmounts(
             amountToken0,
             amountToken1,
@@ -168,6 +185,8 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
         // This particular exit function is the only one that remains available because it is the simplest one, and
         // therefore the one with the lowest likelihood of errors.
 
+        updateOracle();
+
         (uint256 amountOut0, uint256 amountOut1) = getTokensOutGivenLPIn(lpTokensIn);
 
         if (amountOut0 < minAmountOut0) {
@@ -190,6 +209,8 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
         uint256 maxLpTokensIn,
         address recipient
     ) external override whenNotPaused {
+        updateOracle();
+
         (uint256 balance0, uint256 balance1) = getRateAdjustedBalances();
 
         (uint256 amountOut0, uint256 amountOut1) = getRateAdjustedAmounts(
@@ -239,6 +260,8 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
         }
         (IPoolShare tokenOut, bool firstIn) = (tokenIn == token0) ? (token1, true) : (token0, false);
 
+        updateOracle();
+
         (uint256 balance0, uint256 balance1) = getRateAdjustedBalances();
 
         (uint256 amountIn, uint256 amountOut) = (swapType == SwapType.GIVEN_IN)
@@ -480,6 +503,120 @@ contract TempusAMM is ITempusAMM, ERC20Permit, Pausable, Ownable {
         token1Amount = maxAmount.mulDown(token1Scale);
     }
 
+    function consult(uint256 secondsAgo) external view override returns (uint256 token0Price, uint256 token1Price) {
+        if (secondsAgo == 0) {
+            revert ZeroOraclePeriod();
+        }
+        if (observationCount == 0) {
+            revert NotInitialisedYet();
+        }
+
+        (uint112 token0CumulativeEnd, uint112 token1CumulativeEnd) = cumulativePricesAt(block.timestamp);
+        (uint112 token0CumulativeStart, uint112 token1CumulativeStart) = cumulativePricesAt(
+            block.timestamp - secondsAgo
+        );
+
+        // Cumulative prices are allowed to overflow, so differences between them must wrap around as well
+        unchecked {
+            token0Price = uint112(token0CumulativeEnd - token0CumulativeStart) / secondsAgo;
+            token1Price = uint112(token1CumulativeEnd - token1CumulativeStart) / secondsAgo;
+        }
+    }
+
+    // Price oracle
+
+    // Records the cumulative prices before the first balance change of a block,
+    // so the prices a block ends with are only accumulated over the time that follows it
+    function updateOracle() private {
+        if (observationCount == 0) {
+            observations[0] = Observation(uint32(block.timestamp), 0, 0);
+            observationCount = 1;
+            return;
+        }
+
+        Observation memory latest = observations[observationIndex];
+        if (latest.timestamp == block.timestamp) {
+            return;
+        }
+
+        (uint112 token0Cumulative, uint112 token1Cumulative) = extrapolateCumulativePrices(latest, block.timestamp);
+
+        uint16 index = uint16((observationIndex + 1) % OBSERVATION_CARDINALITY);
+        observations[index] = Observation(uint32(block.timestamp), token0Cumulative, token1Cumulative);
+        observationIndex = index;
+        if (observationCount < OBSERVATION_CARDINALITY) {
+            observationCount++;
+        }
+    }
+
+    function cumulativePricesAt(uint256 timestamp) private view returns (uint112, uint112) {
+        Observation memory newer = observations[observationIndex];
+        if (timestamp >= newer.timestamp) {
+            return extrapolateCumulativePrices(newer, timestamp);
+        }
+
+        for (uint256 i = 1; i < observationCount; i++) {
+            Observation memory older = observations[
+                (observationIndex + OBSERVATION_CARDINALITY - i) % OBSERVATION_CARDINALITY
+            ];
+            if (timestamp >= older.timestamp) {
+                uint256 elapsed = timestamp - older.timestamp;
+                uint256 period = newer.timestamp - older.timestamp;
+                return (
+                    interpolate(older.token0PriceCumulative, newer.token0PriceCumulative, elapsed, period),
+                    interpolate(older.token1PriceCumulative, newer.token1PriceCumulative, elapsed, period)
+                );
+            }
+            newer = older;
+        }
+
+        revert OracleObservationTooOld(timestamp, newer.timestamp);
+    }
+
+    // Current prices have been in effect since the block of the latest observation, as it is recorded
+    // before the first balance change of its block and no balances changed in the following blocks
+    function extrapolateCumulativePrices(Observation memory latest, uint256 timestamp)
+        private
+        view
+        returns (uint112 token0Cumulative, uint112 token1Cumulative)
+    {
+        (uint256 token0Price, uint256 token1Price) = getSpotPrices();
+        uint256 elapsed = timestamp - latest.timestamp;
+        unchecked {
+            token0Cumulative = uint112(latest.token0PriceCumulative + token0Price * elapsed);
+            token1Cumulative = uint112(latest.token1PriceCumulative + token1Price * elapsed);
+        }
+    }
+
+    function interpolate(
+        uint112 olderCumulative,
+        uint112 newerCumulative,
+        uint256 elapsed,
+        uint256 period
+    ) private pure returns (uint112) {
+        unchecked {
+            return olderCumulative + uint112((uint256(newerCumulative - olderCumulative) * elapsed) / period);
+        }
+    }
+
+    // Prices of token0 in token1 and of token1 in token0, not adjusted by the pricePerFullShare of the tokens
+    function getSpotPrices() private view returns (uint256 token0Price, uint256 token1Price) {
+        (uint256 balance0, uint256 balance1) = getRateAdjustedBalancesStored();
+        if (balance0 == 0 || balance1 == 0) {
+            return (0, 0);
+        }
+
+        uint256 rate0 = token0.getPricePerFullShareStored();
+        uint256 rate1 = token1.getPricePerFullShareStored();
+        uint256 rateAdjustedPrice = StableMath.spotPrice(_getAmplificationValue(), balance0, balance1);
+
+        token0Price = rateAdjustedPrice.mulfV(rate0, TEMPUS_SHARE_PRECISION).divfV(rate1, TEMPUS_SHARE_PRECISION);
+        token1Price = Fixed256x18.ONE.divDown(rateAdjustedPrice).mulfV(rate1, TEMPUS_SHARE_PRECISION).divfV(
+            rate0,
+            TEMPUS_SHARE_PRECISION
+        );
+    }
+
     // Amplification
 
     // NOTE: this function MUST be called in the constructor
@@ -30,6 +30,10 @@ contract MockStableMath {
         return StableMath.inGivenOut(amp, balances[0], balances[1], firstTokenOut, tokenAmountOut);
     }
 
+    function spotPrice(uint256 amp, uint256[] memory balances) external pure returns (uint256) {
+        return StableMath.spotPrice(amp, balances[0], balances[1]);
+    }
+
     function lpOutGivenTokensIn(
         uint256 amp,
         uint256[] memory balances,
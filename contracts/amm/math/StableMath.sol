@@ -142,6 +142,35 @@ library StableMath {
         return finalBalanceIn - balanceIn + 1;
     }
 
+    // Computes the spot price of token0 denominated in token1, that is the marginal amount of token1 received
+    // for token0, ignoring swap fees. The price is an 18 decimal fixed point number.
+    // The amplification parameter equals: A n^(n-1)
+    function spotPrice(
+        uint256 amp,
+        uint256 balance0,
+        uint256 balance1
+    ) internal pure returns (uint256) {
+        /**********************************************************************************************
+        // spot price of x in y - ratio of the partial derivatives of the invariant                  //
+        // D = invariant                                                        D^(n+1)              //
+        // A = amplification coefficient                        A n^n x y + -----------               //
+        // x = balance token0                                                  n^n x                  //
+        // y = balance token1                       price = -------------------------------           //
+        // n = number of tokens                                                 D^(n+1)               //
+        //                                                      A n^n x y + -----------               //
+        //                                                                     n^n y                  //
+        **********************************************************************************************/
+
+        uint256 invar = invariant(amp, balance0, balance1, true);
+        uint256 totalAmpTimesProduct = Math.divDown(balance0.mulDown(balance1) * amp * _NUM_TOKENS, _AMP_PRECISION);
+        uint256 invariantPower = invar.mulDown(invar).mulDown(invar) / (_NUM_TOKENS * _NUM_TOKENS);
+
+        return
+            (totalAmpTimesProduct + invariantPower.divDown(balance0)).divDown(
+                totalAmpTimesProduct + invariantPower.divDown(balance1)
+            );
+    }
+
     function lpOutGivenTokensIn(
         uint256 amp,
         uint256 balance0,
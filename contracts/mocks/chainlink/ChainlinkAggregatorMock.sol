@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import "../../stats/ChainlinkTokenPairPriceFeed/IChainlinkAggregator.sol";
+
+/// Mock of a Chainlink price aggregator, every answer update starts a new round
+contract ChainlinkAggregatorMock is IChainlinkAggregator {
+    uint8 public override decimals;
+
+    uint80 private latestRoundId;
+    int256 private latestAnswer;
+    uint256 private latestStartedAt;
+    uint256 private latestUpdatedAt;
+    uint80 private latestAnsweredInRound;
+
+    constructor(uint8 answerDecimals, int256 initialAnswer) {
+        decimals = answerDecimals;
+        setAnswer(initialAnswer);
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return (latestRoundId, latestAnswer, latestStartedAt, latestUpdatedAt, latestAnsweredInRound);
+    }
+
+    /// Mock function, starts a new round with `newAnswer` at the current block timestamp
+    function setAnswer(int256 newAnswer) public {
+        latestRoundId++;
+        latestAnswer = newAnswer;
+        latestStartedAt = block.timestamp;
+        latestUpdatedAt = block.timestamp;
+        latestAnsweredInRound = latestRoundId;
+    }
+
+    /// Mock function, changes the decimals without changing the answer
+    function setDecimals(uint8 answerDecimals) external {
+        decimals = answerDecimals;
+    }
+
+    /// Mock function, overrides the timestamps of the latest round
+    function setRoundTimestamps(uint256 roundStartedAt, uint256 roundUpdatedAt) external {
+        latestStartedAt = roundStartedAt;
+        latestUpdatedAt = roundUpdatedAt;
+    }
+
+    /// Mock function, overrides the round in which the latest answer was computed
+    function setAnsweredInRound(uint80 round) external {
+        latestAnsweredInRound = round;
+    }
+}
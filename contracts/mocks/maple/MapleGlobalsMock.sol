@@ -0,0 +1,29 @@
+// solhint-disable
+
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity 0.8.10;
+
+import "../../protocols/maple/IMapleGlobals.sol";
+
+/// MapleGlobals mock which only holds the Liquidity Provider withdraw cooldown params
+contract MapleGlobalsMock is IMapleGlobals {
+    uint256 public lpCooldownPeriod;
+    uint256 public lpWithdrawWindow = 2 days;
+
+    /// @notice MOCK ONLY
+    /// @dev Sets the period between `intendToWithdraw` and the opening of the withdraw window
+    function setLpCooldownPeriod(uint256 period) external {
+        lpCooldownPeriod = period;
+    }
+
+    /// @notice MOCK ONLY
+    /// @dev Sets the duration of the withdraw window
+    function setLpWithdrawWindow(uint256 window) external {
+        lpWithdrawWindow = window;
+    }
+
+    function getLpCooldownParams() external view override returns (uint256, uint256) {
+        return (lpCooldownPeriod, lpWithdrawWindow);
+    }
+}
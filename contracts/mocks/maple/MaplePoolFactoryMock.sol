@@ -0,0 +1,16 @@
+// solhint-disable
+
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity 0.8.10;
+
+import "../../protocols/maple/IPoolFactory.sol";
+
+/// PoolFactory mock which only links its Pools to MapleGlobals
+contract MaplePoolFactoryMock is IPoolFactory {
+    IMapleGlobals public immutable override globals;
+
+    constructor(IMapleGlobals _globals) {
+        globals = _globals;
+    }
+}
@@ -0,0 +1,198 @@
+// solhint-disable
+
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity 0.8.10;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "../../protocols/maple/IPool.sol";
+import "../../protocols/maple/IPoolFactory.sol";
+import "./MapleGlobalsMock.sol";
+import "./MaplePoolFactoryMock.sol";
+
+/// Maple Pool mock which acts as its own PoolFDT.
+/// Same as Maple, PoolFDTs have 18 decimals and are minted 1:1 for the deposited Liquidity Asset, and interest is not
+/// reflected in the FDT price, instead it accrues as withdrawable funds of each holder.
+/// Same as Maple's BasicFDT, holders only accrue interest distributed while they were holding PoolFDTs.
+/// Same as Maple's ExtendedFDT, loan defaults write down the PoolFDTs held at the time of the default,
+/// and these losses are recognized all at once by the next withdrawal of the holder.
+contract MaplePoolMock is ERC20, IPool {
+    IERC20Metadata private immutable asset;
+    // converts Liquidity Asset amounts to PoolFDT amounts, same as Maple's `_toWad`
+    uint256 private immutable toWadFactor;
+
+    // 1.0 + interest distributed per PoolFDT since the start of the pool, as an 1e18 decimal (init: 1.0)
+    uint256 public interestRate;
+    // BasicFDT accounting, which excludes interest distributed before PoolFDTs were received
+    mapping(address => int256) private pointsCorrection;
+    mapping(address => uint256) private withdrawnFunds;
+    // Losses written down per PoolFDT since the start of the pool, as an 1e18 decimal (init: 0.0)
+    uint256 public lossesPerShare;
+    mapping(address => int256) private lossesCorrection;
+    mapping(address => uint256) private recognizedLosses;
+    // used for mocks, it will force-fail the next deposit or redeem
+    bool public mockFailNextDepositOrRedeem;
+
+    mapping(address => uint256) public override depositDate;
+    mapping(address => uint256) public override withdrawCooldown;
+    uint256 public override lockupPeriod;
+    // links to its own MapleGlobalsMock, which holds the withdraw cooldown params
+    address public immutable override superFactory;
+
+    constructor(
+        IERC20Metadata _asset,
+        uint256 initialInterestRate,
+        string memory _name,
+        string memory _symbol
+    ) ERC20(_name, _symbol) {
+        require(_asset.decimals() <= 18, "underlying decimals must be <= 18");
+        asset = _asset;
+        toWadFactor = 10**(18 - _asset.decimals());
+        interestRate = initialInterestRate;
+        superFactory = address(new MaplePoolFactoryMock(new MapleGlobalsMock()));
+    }
+
+    /// @notice MOCK ONLY
+    /// @dev Sets the current accrued interest rate
+    /// @param rate Accrued interest per PoolFDT, expressed as an 1e18 decimal
+    function setInterestRate(uint256 rate) public {
+        interestRate = rate;
+    }
+
+    /// @notice MOCK ONLY
+    /// @dev Simulates a loan default, writing down the value of all outstanding PoolFDTs
+    /// @param lossRate Loss per PoolFDT, expressed as an 1e18 decimal, eg. 0.2e18 for a 20% loss
+    function writeDown(uint256 lossRate) public {
+        require(lossesPerShare + lossRate <= 1e18, "losses exceed PoolFDT value");
+        lossesPerShare += lossRate;
+    }
+
+    /// @notice MOCK ONLY
+    function setFailNextDepositOrRedeem(bool fail) public {
+        mockFailNextDepositOrRedeem = fail;
+    }
+
+    /// @notice MOCK ONLY
+    /// @dev Sets the lockup period which applies to withdrawals after each deposit
+    function setLockupPeriod(uint256 period) public {
+        lockupPeriod = period;
+    }
+
+    function liquidityAsset() external view override returns (IERC20) {
+        return asset;
+    }
+
+    /// @dev Deposits an `amount` of Liquidity Asset into the Pool, receiving in return PoolFDTs
+    /// - E.g. User deposits 100 USDC and gets in return 100 PoolFDTs
+    /// @param amount The amount to be deposited
+    function deposit(uint256 amount) external override {
+        if (mockFailNextDepositOrRedeem) {
+            setFailNextDepositOrRedeem(false);
+            revert("random mock failure from maple");
+        }
+
+        require(asset.transferFrom(msg.sender, address(this), amount), "transfer failed");
+
+        // same as Maple, the deposit date is weighted by deposited amounts and any withdraw intent is cancelled
+        uint256 wad = amount * toWadFactor;
+        uint256 prevDate = depositDate[msg.sender];
+        uint256 balance = balanceOf(msg.sender);
+        depositDate[msg.sender] = (prevDate == 0)
+            ? block.timestamp
+            : prevDate + ((block.timestamp - prevDate) * wad) / (balance + wad);
+        withdrawCooldown[msg.sender] = 0;
+
+        _mint(msg.sender, wad);
+    }
+
+    /// @dev Starts the withdraw cooldown of msg.sender
+    function intendToWithdraw() external override {
+        require(balanceOf(msg.sender) != 0, "P:ZERO_BALANCE");
+        withdrawCooldown[msg.sender] = block.timestamp;
+    }
+
+    /// @dev Withdraws an `amount` of Liquidity Asset from the Pool, burning the same amount of PoolFDTs
+    /// @dev Same as Maple, all interest accrued by msg.sender is withdrawn as well
+    /// @dev All recognizable losses of msg.sender are deducted from the withdrawn Liquidity Asset
+    /// @param amount The amount to be withdrawn
+    function withdraw(uint256 amount) external override {
+        if (mockFailNextDepositOrRedeem) {
+            setFailNextDepositOrRedeem(false);
+            revert("random mock failure from maple");
+        }
+
+        require(depositDate[msg.sender] + lockupPeriod <= block.timestamp, "P:FUNDS_LOCKED");
+
+        (uint256 lpCooldownPeriod, uint256 lpWithdrawWindow) = IPoolFactory(superFactory)
+            .globals()
+            .getLpCooldownParams();
+        uint256 cooldown = withdrawCooldown[msg.sender];
+        require(cooldown != 0, "P:NOT_WITHDRAWING");
+        uint256 windowStart = cooldown + lpCooldownPeriod;
+        require(windowStart <= block.timestamp, "P:COOLDOWN_NOT_FINISHED");
+        require(block.timestamp - windowStart <= lpWithdrawWindow, "P:WITHDRAW_WINDOW_FINISHED");
+
+        _burn(msg.sender, amount * toWadFactor);
+        withdrawFunds();
+        uint256 losses = recognizableLossesOf(msg.sender);
+        recognizedLosses[msg.sender] += losses;
+        require(asset.transfer(msg.sender, amount - losses), "transfer failed");
+    }
+
+    /// @dev Withdraws all interest accrued by msg.sender
+    function withdrawFunds() public override {
+        uint256 funds = withdrawableFundsOf(msg.sender);
+        withdrawnFunds[msg.sender] += funds;
+        require(asset.transfer(msg.sender, funds), "transfer failed");
+    }
+
+    /// @return Interest accrued by `owner` which was not yet withdrawn, in Liquidity Asset precision
+    function withdrawableFundsOf(address owner) public view override returns (uint256) {
+        uint256 accumulated = accumulativeFundsOf(owner);
+        uint256 withdrawn = withdrawnFunds[owner];
+        return (accumulated > withdrawn) ? (accumulated - withdrawn) : 0;
+    }
+
+    /// @return Total interest ever accrued by `owner`, in Liquidity Asset precision
+    function accumulativeFundsOf(address owner) public view override returns (uint256) {
+        int256 points = int256(pointsPerShare() * balanceOf(owner)) + pointsCorrection[owner];
+        return (points > 0) ? (uint256(points) / 1e18 / toWadFactor) : 0;
+    }
+
+    /// @return Losses of `owner` which were not yet recognized by a withdrawal, in Liquidity Asset precision
+    function recognizableLossesOf(address owner) public view override returns (uint256) {
+        int256 losses = int256(lossesPerShare * balanceOf(owner)) + lossesCorrection[owner];
+        uint256 accumulated = (losses > 0) ? (uint256(losses) / 1e18 / toWadFactor) : 0;
+        uint256 recognized = recognizedLosses[owner];
+        return (accumulated > recognized) ? (accumulated - recognized) : 0;
+    }
+
+    function pointsPerShare() private view returns (uint256) {
+        uint256 rate = interestRate;
+        return (rate > 1e18) ? (rate - 1e18) : 0;
+    }
+
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal override {
+        // same as Maple, PoolFDTs can't be transferred until the losses of the sender are recognized
+        if (from != address(0) && to != address(0)) {
+            require(recognizableLossesOf(from) == 0, "P:RECOG_LOSSES");
+        }
+
+        int256 correction = int256(pointsPerShare() * amount);
+        int256 lossCorrection = int256(lossesPerShare * amount);
+        if (from != address(0)) {
+            pointsCorrection[from] += correction;
+            lossesCorrection[from] += lossCorrection;
+        }
+        if (to != address(0)) {
+            pointsCorrection[to] -= correction;
+            lossesCorrection[to] -= lossCorrection;
+        }
+    }
+}
@@ -83,7 +83,7 @@ contract AaveTempusPool is TempusPool {
     }
 
     /// @return Updated current Interest Rate as an 1e18 decimal
-    function updateInterestRate() public view override returns (uint256) {
+    function updateUnderlyingInterestRate() internal view override returns (uint256) {
         // convert from RAY 1e27 to WAD 1e18 decimal
         return aavePool.getReserveNormalizedIncome(address(backingToken)) / 1e9;
     }
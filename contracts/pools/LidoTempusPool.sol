@@ -54,7 +54,7 @@ contract LidoTempusPool is TempusPool {
     }
 
     /// @return Updated current Interest Rate as an 1e18 decimal
-    function updateInterestRate() public view override returns (uint256) {
+    function updateUnderlyingInterestRate() internal view override returns (uint256) {
         return lido.getPooledEthByShares(1e18);
     }
 
@@ -1,23 +1,44 @@
+// SPDX-License-Identifier: BUSL-1.1
 pragma solidity 0.8.10;
 
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-
-
-import "../protocols/maple/IPool.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 
 import "../TempusPool.sol";
+import "../protocols/maple/IPool.sol";
+import "../protocols/maple/IPoolFactory.sol";
+import "../utils/UntrustedERC20.sol";
+import "../math/Fixed256xVar.sol";
 
 contract MapleTempusPool is TempusPool {
     using SafeERC20 for IERC20Metadata;
     using UntrustedERC20 for IERC20Metadata;
+    using Fixed256xVar for uint256;
 
     IPool internal immutable maplePool;
-    //bytes32 public constant override protocolName = "Maple";
+    bytes32 public constant override protocolName = "Maple";
     uint256 private immutable exchangeRateToBackingPrecision;
-    /// @dev Error thrown when the `withdrawFromUnderlyingProtocol` method is called for Lido pool
-    error MapleWithdrawNotSupported();
-    
+
+    /// Interest rate at the last checkpoint, as an 1e18 decimal
+    uint256 private checkpointInterestRate = 1e18;
+    /// Value held by this pool (PoolFDTs, claimed interest and withdrawable interest minus recognizable losses)
+    /// at the last checkpoint
+    uint256 private checkpointValue;
+    /// Withdrawable interest at the last checkpoint
+    uint256 private checkpointInterest;
+    /// Recognizable losses at the last checkpoint
+    uint256 private checkpointLosses;
+
+    /// @dev Error thrown when withdrawing while the deposits are still in Maple's lockup period
+    /// @param unlockTime The timestamp after which the lockup period is over
+    error MapleWithdrawLocked(uint256 unlockTime);
+
+    /// @dev Error thrown when withdrawing outside of Maple's withdraw window
+    /// @param windowStart The timestamp when the withdraw window opens, or zero if withdrawal was never requested
+    /// @param windowEnd The timestamp when the withdraw window closes
+    error MapleWithdrawWindowClosed(uint256 windowStart, uint256 windowEnd);
+
     constructor(
         IPool token,
         address controller,
@@ -32,7 +53,9 @@ contract MapleTempusPool is TempusPool {
             IERC20Metadata(address(token.liquidityAsset())),
             controller,
             maturity,
-            1e12,
+            /*initInterestRate:*/
+            1e18,
+            /*exchangeRateOne:*/
             1e18,
             estYield,
             principalsData,
@@ -52,7 +75,6 @@ contract MapleTempusPool is TempusPool {
         }
     }
 
-    
     function depositToUnderlying(uint256 amountBT)
         internal
         override
@@ -60,46 +82,188 @@ contract MapleTempusPool is TempusPool {
         returns (uint256 mintedYBT)
     {
         // ETH deposits are not accepted, because it is rejected in the controller
-        assert(msg.value == amountBT);
+        assert(msg.value == 0);
 
         uint256 ybtBefore = balanceOfYBT();
-        maplePool.deposit(amountBT);
-
+        depositToMaple(amountBT);
         mintedYBT = balanceOfYBT() - ybtBefore;
     }
 
     function withdrawFromUnderlyingProtocol(uint256 yieldBearingTokensAmount, address recipient)
         internal
         override
-        assertTransferYBT(yieldBearingTokensAmount, 1)
-        returns (uint256)
+        returns (uint256 backingTokenAmount)
+    {
+        // Maple pays out all accrued interest on every withdrawal, so it is claimed beforehand
+        // to keep the interest of the whole pool apart from the redeemed amount
+        claimMapleInterest();
+
+        // the claimed interest held by this pool is paid out first
+        uint256 amountBT = numAssetsPerYieldToken(yieldBearingTokensAmount, 0);
+        uint256 heldBT = balanceOfBT();
+        if (amountBT > heldBT) {
+            withdrawFromMaple(amountBT - heldBT);
+        }
+
+        backingTokenAmount = backingToken.untrustedTransfer(recipient, amountBT);
+
+        // the recognized losses and burned PoolFDTs must not be mistaken for yield
+        checkpoint();
+    }
+
+    function withdrawFromMaple(uint256 amountBT) private {
+        uint256 unlockTime = maplePool.depositDate(address(this)) + maplePool.lockupPeriod();
+        if (block.timestamp < unlockTime) {
+            revert MapleWithdrawLocked(unlockTime);
+        }
+
+        (uint256 windowStart, uint256 windowEnd) = withdrawWindow();
+        if (windowStart == 0 || block.timestamp < windowStart || block.timestamp > windowEnd) {
+            revert MapleWithdrawWindowClosed(windowStart, windowEnd);
+        }
+
+        // Maple deducts all recognizable losses from the next withdrawal, so these are covered
+        // with additional PoolFDTs, which are already accounted for in the interest rate
+        uint256 losses = maplePool.recognizableLossesOf(address(this));
+        maplePool.withdraw(amountBT + losses);
+    }
+
+    function depositToMaple(uint256 amountBT) private {
+        backingToken.safeIncreaseAllowance(address(maplePool), amountBT);
+        maplePool.deposit(amountBT);
+    }
+
+    /// Claimed interest is held as BackingTokens, so PoolFDTs of this pool don't cover its whole value.
+    /// If the PoolFDTs are short, the claimed interest is deposited back into Maple to cover the transfer.
+    function transferYieldBearing(address recipient, uint256 amount)
+        internal
+        override
+        returns (uint256 transferredAmount)
     {
-        revert MapleWithdrawNotSupported();
-        return 0;
+        uint256 balance = balanceOfYBT();
+        if (balance < amount) {
+            updateInterestRate();
+            maplePool.withdrawFunds();
+
+            // Maple cancels the withdraw intent on every deposit, so a pending intent is signalled again
+            bool intendsToWithdraw = maplePool.withdrawCooldown(address(this)) != 0;
+            uint256 missingBT = (amount - balance + exchangeRateToBackingPrecision - 1) /
+                exchangeRateToBackingPrecision;
+            depositToMaple(Math.min(missingBT, balanceOfBT()));
+            if (intendsToWithdraw) {
+                maplePool.intendToWithdraw();
+            }
+            amount = Math.min(amount, balanceOfYBT());
+        }
+
+        transferredAmount = yieldBearingToken.untrustedTransfer(recipient, amount);
+
+        // PoolFDTs leaving the pool must not be mistaken for losses
+        checkpoint();
+    }
+
+    /// Signals Maple that this pool intends to withdraw, which starts Maple's withdraw cooldown.
+    /// Redemptions to BackingTokens are only possible during the withdraw window that follows the cooldown.
+    /// @notice Every deposit into Maple resets the cooldown, so this has to be called again after deposits
+    /// @notice This function can only be called by the owner.
+    function intendToWithdraw() external onlyOwner {
+        maplePool.intendToWithdraw();
+    }
+
+    /// @return windowStart Timestamp when withdrawing from Maple becomes possible, or zero if it was not requested
+    /// @return windowEnd Timestamp after which withdrawing from Maple is no longer possible
+    function withdrawWindow() public view returns (uint256 windowStart, uint256 windowEnd) {
+        uint256 cooldownStart = maplePool.withdrawCooldown(address(this));
+        if (cooldownStart == 0) {
+            return (0, 0);
+        }
+        // same as Maple, the cooldown params are read from MapleGlobals
+        IMapleGlobals globals = IPoolFactory(maplePool.superFactory()).globals();
+        (uint256 lpCooldownPeriod, uint256 lpWithdrawWindow) = globals.getLpCooldownParams();
+        windowStart = cooldownStart + lpCooldownPeriod;
+        windowEnd = windowStart + lpWithdrawWindow;
+    }
+
+    /// Claims the interest accrued in Maple, which is then held by this pool as BackingTokens.
+    /// The claimed interest is not deposited back, because depositing into Maple restarts the lockup period,
+    /// instead it is paid out first on redemptions to BackingTokens.
+    /// @notice Anyone can call this to claim the interest, for example before Maple's withdraw window opens
+    /// @return claimedInterest Amount of BackingTokens which were claimed
+    function claimInterest() external nonReentrant returns (uint256 claimedInterest) {
+        updateInterestRate();
+        claimedInterest = claimMapleInterest();
+    }
+
+    function claimMapleInterest() private returns (uint256 claimedInterest) {
+        uint256 btBefore = balanceOfBT();
+        maplePool.withdrawFunds();
+        claimedInterest = balanceOfBT() - btBefore;
+
+        // the claimed interest is held by this pool, interest rate stays the same
+        checkpoint();
     }
 
     /// @return Updated current Interest Rate as an 1e18 decimal
-    function updateInterestRate() public view override returns (uint256) {
-        // convert from RAY 1e27 to WAD 1e18 decimal
-        return maplePool.withdrawableFundsOf(controller)/balanceOfYBT() + 1;
+    function updateUnderlyingInterestRate() internal override returns (uint256) {
+        uint256 rate = calculateInterestRate();
+        checkpointInterestRate = rate;
+        checkpoint();
+        return rate;
     }
 
-    /// @return Stored Interest Rate as an 1e18 decimal
+    /// @return Current Interest Rate as an 1e18 decimal
     function currentInterestRate() public view override returns (uint256) {
-        return maplePool.withdrawableFundsOf(controller)/balanceOfYBT() + 1;
+        return calculateInterestRate();
     }
 
-    /// NOTE: Maple PoolFDT is pegged 1:1 with backing token
-    function numAssetsPerYieldToken(uint256 yieldTokens, uint256) public pure override returns (uint256) {
-        return yieldTokens;
+    /// NOTE: Maple PoolFDT is pegged 1:1 with backing token, but always has 18 decimals
+    function numAssetsPerYieldToken(uint256 yieldTokens, uint256) public view override returns (uint256) {
+        return yieldTokens / exchangeRateToBackingPrecision;
     }
 
-    /// NOTE: Maple PoolFDT is pegged 1:1 with backing token
-    function numYieldTokensPerAsset(uint256 backingTokens, uint256) public pure override returns (uint256) {
-        return backingTokens;
+    /// NOTE: Maple PoolFDT is pegged 1:1 with backing token, but always has 18 decimals
+    function numYieldTokensPerAsset(uint256 backingTokens, uint256) public view override returns (uint256) {
+        return backingTokens * exchangeRateToBackingPrecision;
     }
 
     function interestRateToSharePrice(uint256 interestRate) internal view override returns (uint256) {
         return interestRate / exchangeRateToBackingPrecision;
     }
-}
\ No newline at end of file
+
+    /// Maple PoolFDTs do not appreciate in value, instead the interest accrues as withdrawable funds of each holder,
+    /// and loan defaults are accrued as recognizable losses of each holder.
+    /// Therefore the interest rate follows the value change since the last checkpoint:
+    ///     interestRate = checkpointRate * (checkpointValue + accruedInterest - accruedLosses) / checkpointValue
+    /// Checkpoints happen on every update and whenever funds leave the pool, so deposits, redemptions, claims
+    /// and recognizing the losses don't change the rate.
+    /// @return Interest rate as an 1e18 decimal
+    function calculateInterestRate() private view returns (uint256) {
+        uint256 value = checkpointValue;
+        if (value == 0) {
+            return checkpointInterestRate;
+        }
+
+        // withdrawable interest and recognizable losses only change with the yield between checkpoints
+        uint256 interest = maplePool.withdrawableFundsOf(address(this));
+        uint256 losses = maplePool.recognizableLossesOf(address(this));
+        uint256 accruedInterest = (interest > checkpointInterest) ? (interest - checkpointInterest) : 0;
+        uint256 accruedLosses = (losses > checkpointLosses) ? (losses - checkpointLosses) : 0;
+        if (accruedInterest == accruedLosses) {
+            return checkpointInterestRate;
+        }
+
+        uint256 newValue = value + accruedInterest;
+        newValue = (newValue > accruedLosses) ? (newValue - accruedLosses) : 0;
+        return checkpointInterestRate.mulfV(newValue, value);
+    }
+
+    function checkpoint() private {
+        uint256 interest = maplePool.withdrawableFundsOf(address(this));
+        uint256 losses = maplePool.recognizableLossesOf(address(this));
+        checkpointInterest = interest;
+        checkpointLosses = losses;
+
+        uint256 value = numAssetsPerYieldToken(balanceOfYBT(), 0) + balanceOfBT() + interest;
+        checkpointValue = (value > losses) ? (value - losses) : 0;
+    }
+}
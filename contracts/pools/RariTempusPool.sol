@@ -120,7 +120,7 @@ contract RariTempusPool is TempusPool {
     }
 
     /// @return Updated current Interest Rate with the same precision as the BackingToken
-    function updateInterestRate() public override returns (uint256) {
+    function updateUnderlyingInterestRate() internal override returns (uint256) {
         lastCalculatedInterestRate = calculateInterestRate(
             rariFundManager,
             yieldBearingToken,
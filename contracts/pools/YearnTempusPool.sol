@@ -76,7 +76,7 @@ contract YearnTempusPool is TempusPool {
     }
 
     /// @return Updated current Interest Rate with the same precision as the BackingToken
-    function updateInterestRate() public view override returns (uint256) {
+    function updateUnderlyingInterestRate() internal view override returns (uint256) {
         return yearnVault.pricePerShare(); //current interest rate
     }
 
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+pragma solidity 0.8.10;
+
+/***
+    @notice based on https://github.dev/maple-labs/maple-core
+*/
+interface IMapleGlobals {
+    /**
+        @dev    Returns the `lpCooldownPeriod` and `lpWithdrawWindow` as a tuple, for convenience.
+        @return lpCooldownPeriod Period after `intendToWithdraw` before the withdraw window opens.
+        @return lpWithdrawWindow Duration of the withdraw window which opens after the cooldown period.
+    */
+    function getLpCooldownParams() external view returns (uint256 lpCooldownPeriod, uint256 lpWithdrawWindow);
+}
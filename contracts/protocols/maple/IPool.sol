@@ -34,8 +34,59 @@ interface IPool is IERC20, IERC20Metadata {
     */
     function withdrawableFundsOf(address owner) external view returns (uint256);
 
+    /**
+        @dev    Returns the amount of funds that an account has earned in total.
+        @dev    accumulativeFundsOf(owner) = withdrawableFundsOf(owner) + withdrawnFundsOf(owner)
+        @param  owner Address of FDT holder.
+        @return A uint256 representing the total funds earned by a given account.
+    */
+    function accumulativeFundsOf(address owner) external view returns (uint256);
+
+    /**
+        @dev    Returns the amount of losses that an account has not yet recognized.
+        @dev    Losses are recognized on the next withdrawal, reducing the withdrawn Liquidity Asset amount.
+        @param  owner Address of FDT holder.
+        @return A uint256 representing the losses that can be recognized by a given account.
+    */
+    function recognizableLossesOf(address owner) external view returns (uint256);
+
+    /**
+        @dev   Withdraws all available funds (accrued interest) for the calling FDT holder.
+        @dev   It emits a `FundsWithdrawn` event.
+    */
+    function withdrawFunds() external;
+
 
     function liquidityAsset() external view returns (IERC20);
 
+    /**
+        @dev   Activates the cooldown period to withdraw. It can't be called if the account is not providing liquidity.
+        @dev   It emits a `Cooldown` event.
+    */
+    function intendToWithdraw() external;
 
-}
\ No newline at end of file
+    /**
+        @dev    Returns the effective deposit date of a Liquidity Provider, weighted by the deposited amounts.
+        @param  owner Address of FDT holder.
+        @return Timestamp of the weighted deposit date, which is used for the lockup period.
+    */
+    function depositDate(address owner) external view returns (uint256);
+
+    /**
+        @dev    Returns the time at which `intendToWithdraw` was last called by a Liquidity Provider.
+        @dev    It is reset to zero on every deposit.
+        @param  owner Address of FDT holder.
+        @return Timestamp of the withdraw intent, or zero if there is none.
+    */
+    function withdrawCooldown(address owner) external view returns (uint256);
+
+    /**
+        @dev   Period after the deposit date during which a Liquidity Provider cannot withdraw.
+    */
+    function lockupPeriod() external view returns (uint256);
+
+    /**
+        @dev   The PoolFactory which created this Pool, it links the Pool to MapleGlobals.
+    */
+    function superFactory() external view returns (address);
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+pragma solidity 0.8.10;
+
+import "./IMapleGlobals.sol";
+
+/***
+    @notice based on https://github.dev/maple-labs/maple-core
+*/
+interface IPoolFactory {
+    /**
+        @dev   The MapleGlobals contract which configures all Pools created by this factory.
+    */
+    function globals() external view returns (IMapleGlobals);
+}
@@ -1,16 +1,98 @@
 // SPDX-License-Identifier: BUSL-1.1
 pragma solidity 0.8.10;
 
-import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "../../math/Fixed256xVar.sol";
 
 import "./IChainlinkAggregator.sol";
 
 abstract contract ChainlinkTokenPairPriceFeed {
+    using Fixed256xVar for uint256;
+
+    /// @dev A single aggregator of a multi-hop price path, such as stETH/ETH of stETH->ETH->USD
+    /// @param aggregator Address of the Chainlink aggregator,
+    ///                   its base token must be the quote token of the previous hop
+    /// @param maxAge Maximum age of the latest answer in seconds, usually the heartbeat of the aggregator,
+    ///               type(uint256).max disables the staleness check
+    struct ChainlinkHop {
+        address aggregator;
+        uint256 maxAge;
+    }
+
+    /// @dev Error thrown when the latest answer of an aggregator is zero or negative
+    /// @param aggregator Address of the Chainlink aggregator
+    /// @param answer The latest answer
+    error NonPositiveChainlinkAnswer(address aggregator, int256 answer);
+
+    /// @dev Error thrown when the latest round of an aggregator is not complete
+    /// @param aggregator Address of the Chainlink aggregator
+    /// @param roundId The latest round
+    /// @param answeredInRound The round in which the latest answer was computed
+    error IncompleteChainlinkRound(address aggregator, uint80 roundId, uint80 answeredInRound);
+
+    /// @dev Error thrown when the latest answer of an aggregator is older than allowed
+    /// @param aggregator Address of the Chainlink aggregator
+    /// @param updatedAt Timestamp of the latest answer
+    /// @param maxAge Maximum allowed age of the answer in seconds
+    error StaleChainlinkAnswer(address aggregator, uint256 updatedAt, uint256 maxAge);
+
+    /// @dev Error thrown when a multi-hop price path has no aggregators
+    error EmptyChainlinkPath();
+
+    /// @param chainlinkAggregatorNode the address of a Chainlink price aggregator
+    /// @return rate Latest rate of the token pair, divide by `rateDenominator` to get the decimal rate
+    /// @return rateDenominator 10**decimals of the aggregator
     function getRate(address chainlinkAggregatorNode) public view returns (uint256 rate, uint256 rateDenominator) {
+        return latestRate(chainlinkAggregatorNode, type(uint256).max);
+    }
+
+    /// @param chainlinkAggregatorNode the address of a Chainlink price aggregator
+    /// @param maxAge Maximum age of the latest answer in seconds
+    /// @return rate Latest rate of the token pair, divide by `rateDenominator` to get the decimal rate
+    /// @return rateDenominator 10**decimals of the aggregator
+    function getRateWithMaxAge(address chainlinkAggregatorNode, uint256 maxAge)
+        public
+        view
+        returns (uint256 rate, uint256 rateDenominator)
+    {
+        return latestRate(chainlinkAggregatorNode, maxAge);
+    }
+
+    /// @dev Chains the rates of multiple aggregators, eg stETH/ETH and ETH/USD for the stETH/USD rate
+    /// @param path Aggregators from the base token to the quote token
+    /// @return rate Rate of the first base token in the last quote token, divide by `rateDenominator`
+    /// @return rateDenominator 10**decimals of the first aggregator of the path
+    function getPathRate(ChainlinkHop[] calldata path) public view returns (uint256 rate, uint256 rateDenominator) {
+        if (path.length == 0) {
+            revert EmptyChainlinkPath();
+        }
+
+        (rate, rateDenominator) = latestRate(path[0].aggregator, path[0].maxAge);
+        for (uint256 i = 1; i < path.length; i++) {
+            (uint256 hopRate, uint256 hopDenominator) = latestRate(path[i].aggregator, path[i].maxAge);
+            rate = rate.mulfV(hopRate, hopDenominator);
+        }
+    }
+
+    function latestRate(address chainlinkAggregatorNode, uint256 maxAge)
+        private
+        view
+        returns (uint256 rate, uint256 rateDenominator)
+    {
         IChainlinkAggregator chainLinkAggregator = IChainlinkAggregator(chainlinkAggregatorNode);
 
-        (, int256 latestRate, , , ) = chainLinkAggregator.latestRoundData();
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = chainLinkAggregator
+            .latestRoundData();
+
+        if (answer <= 0) {
+            revert NonPositiveChainlinkAnswer(chainlinkAggregatorNode, answer);
+        }
+        if (updatedAt == 0 || answeredInRound < roundId) {
+            revert IncompleteChainlinkRound(chainlinkAggregatorNode, roundId, answeredInRound);
+        }
+        if (maxAge != type(uint256).max && block.timestamp > updatedAt + maxAge) {
+            revert StaleChainlinkAnswer(chainlinkAggregatorNode, updatedAt, maxAge);
+        }
 
-        return (SafeCast.toUint256(latestRate), 10**chainLinkAggregator.decimals());
+        return (uint256(answer), 10**chainLinkAggregator.decimals());
     }
 }
@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 import "./ChainlinkTokenPairPriceFeed/ChainlinkTokenPairPriceFeed.sol";
 import "../ITempusPool.sol";
+import "../IPositionManager.sol";
 import "../math/Fixed256xVar.sol";
 import "../token/PoolShare.sol";
 import "../amm/ITempusAMM.sol";
@@ -12,6 +13,50 @@ import "../amm/ITempusAMM.sol";
 contract Stats is ChainlinkTokenPairPriceFeed {
     using Fixed256xVar for uint256;
 
+    /// @dev Open PositionManager position with its estimated liquidation value
+    /// @param tokenId Token ID of the position
+    /// @param tempusPool The Tempus Pool of the position
+    /// @param position Capitals, Yields, Tempus AMM and the deposited Backing Tokens of the position
+    /// @param value Estimated amount of Backing Tokens received for burning the position
+    struct PositionValue {
+        uint256 tokenId;
+        ITempusPool tempusPool;
+        IPositionManager.Position position;
+        uint256 value;
+    }
+
+    /// @dev Holdings of a user in a Tempus Pool and its Tempus AMM
+    /// @param tempusPool The Tempus Pool
+    /// @param tempusAMM The Tempus AMM of `tempusPool`
+    /// @param principals Principals held by the user
+    /// @param yields Yields held by the user
+    /// @param lpTokens LP tokens of `tempusAMM` held by the user
+    /// @param principalsStaked Principals that can be redeemed for `lpTokens`
+    /// @param yieldsStaked Yields that can be redeemed for `lpTokens`
+    /// @param value Estimated amount of Backing Tokens received for exiting and redeeming all holdings
+    struct Holding {
+        ITempusPool tempusPool;
+        ITempusAMM tempusAMM;
+        uint256 principals;
+        uint256 yields;
+        uint256 lpTokens;
+        uint256 principalsStaked;
+        uint256 yieldsStaked;
+        uint256 value;
+    }
+
+    /// @dev A single point of a yield curve
+    /// @param tempusPool The Tempus Pool of `tempusAMM`
+    /// @param tempusAMM The Tempus AMM used to fix the yield
+    /// @param maturityTime Maturity time of `tempusPool`
+    /// @param fixedAPR Implied annualised fixed APR as an 1e18 decimal, zero if `tempusPool` has matured
+    struct YieldCurvePoint {
+        ITempusPool tempusPool;
+        ITempusAMM tempusAMM;
+        uint256 maturityTime;
+        uint256 fixedAPR;
+    }
+
     constructor() {}
 
     /// @param tempusPool The TempusPool to fetch its TVL (total value locked)
@@ -50,6 +95,21 @@ contract Stats is ChainlinkTokenPairPriceFeed {
         return (tvlInBackingTokens * rate) / rateDenominator;
     }
 
+    /// @param tempusPool The TempusPool to fetch its TVL (total value locked)
+    /// @param path Chainlink aggregators from the BackingToken to the quote token
+    ///             (e.g. - 'steth-eth' and 'eth-usd' for the TVL of a stETH pool in USD)
+    /// @return total value locked of a TempusPool (denominated in the quote token of the last aggregator)
+    function totalValueLockedAtGivenPath(ITempusPool tempusPool, ChainlinkHop[] calldata path)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 tvlInBackingTokens = totalValueLockedInBackingTokens(tempusPool);
+
+        (uint256 rate, uint256 rateDenominator) = getPathRate(path);
+        return (tvlInBackingTokens * rate) / rateDenominator;
+    }
+
     function calculateTvlInBackingTokens(
         uint256 totalSupplyTPS,
         uint256 totalSupplyTYS,
@@ -264,4 +324,149 @@ contract Stats is ChainlinkTokenPairPriceFeed {
 
         tokenAmount = estimatedRedeem(tempusPool, principals, yields, toBackingToken);
     }
+
+    /// @dev Get estimated amount of Backing or Yield bearing tokens for burning a PositionManager position
+    /// @param positionManager PositionManager that holds the position
+    /// @param tokenId Token ID of the position
+    /// @param threshold Maximum amount of Principals or Yields to be left in case of early exit
+    /// @param toBackingToken If true, the value is estimated in BackingTokens instead of YieldBearingTokens
+    /// @return value Amount of BackingTokens or YieldBearingTokens received for liquidating the position
+    function estimatedPositionValue(
+        IPositionManager positionManager,
+        uint256 tokenId,
+        uint256 threshold,
+        bool toBackingToken
+    ) public view returns (uint256 value) {
+        IPositionManager.Position memory p = positionManager.position(tokenId);
+        require(address(p.tempusAMM) != address(0), "Position does not exist!");
+
+        (value, , , , ) = estimateExitAndRedeem(
+            p.tempusAMM,
+            p.tempusAMM.token0().pool(),
+            0,
+            p.capitals,
+            p.yields,
+            threshold,
+            toBackingToken
+        );
+    }
+
+    /// @dev Lists all positions of an owner with their estimated value in Backing Tokens
+    /// @param positionManager PositionManager that holds the positions
+    /// @param owner Owner of the positions
+    /// @param threshold Maximum amount of Principals or Yields to be left in case of early exit,
+    ///                  as an 1e18 decimal fraction of one share, so it suits pools of any decimals
+    /// @return positions Open positions of the owner
+    function positionsOf(
+        IPositionManager positionManager,
+        address owner,
+        uint256 threshold
+    ) external view returns (PositionValue[] memory positions) {
+        uint256[] memory tokenIds = positionManager.tokensOfOwner(owner);
+        positions = new PositionValue[](tokenIds.length);
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            IPositionManager.Position memory p = positionManager.position(tokenIds[i]);
+            ITempusPool tempusPool = p.tempusAMM.token0().pool();
+            uint256 poolThreshold = threshold.mulfV(tempusPool.backingTokenONE(), 1e18);
+
+            positions[i] = PositionValue({
+                tokenId: tokenIds[i],
+                tempusPool: tempusPool,
+                position: p,
+                value: estimatedPositionValue(positionManager, tokenIds[i], poolThreshold, true)
+            });
+        }
+    }
+
+    /// @dev Gets the annualised fixed APR which is locked in by `depositAndFix` at the current AMM spot price.
+    ///      Depositing 1 BackingToken mints `1 / sharePrice` Principals and Yields, swapping the Yields results
+    ///      in `(1 + yieldsRate) / sharePrice` Principals, each redeemable for 1 BackingToken at maturity.
+    /// @notice Assumes positive yield until maturity and ignores the price impact of the swapped amount
+    /// @param tempusAMM Tempus AMM to use to swap TYS for TPS
+    /// @param tempusPool Tempus Pool instance
+    /// @return Implied fixed APR as an 1e18 decimal, eg 0.048e18 for 4.8%
+    function impliedFixedAPR(ITempusAMM tempusAMM, ITempusPool tempusPool) public view returns (uint256) {
+        require(!tempusPool.matured(), "Pool already finalized!");
+
+        uint256 one = tempusPool.backingTokenONE();
+        uint256 yieldsRate = tempusAMM.getExpectedReturnGivenIn(one, tempusPool.yieldShare());
+        uint256 sharePrice = tempusPool.pricePerPrincipalShareStored() + tempusPool.pricePerYieldShareStored();
+
+        uint256 fixedValue = (one + yieldsRate).divfV(sharePrice, one);
+        if (fixedValue <= one) {
+            return 0;
+        }
+
+        uint256 timeToMaturity = tempusPool.maturityTime() - block.timestamp;
+        return ((fixedValue - one).mulfV(1e18, one) * 365 days) / timeToMaturity;
+    }
+
+    /// @dev Gets the implied fixed APR of multiple Tempus AMMs of the same Yield Bearing Token
+    /// @param tempusAMMs Tempus AMMs of pools with the same Yield Bearing Token, in any order
+    /// @return curve Maturity time and implied fixed APR of each Tempus AMM, in the order of `tempusAMMs`
+    function yieldCurve(ITempusAMM[] calldata tempusAMMs) external view returns (YieldCurvePoint[] memory curve) {
+        curve = new YieldCurvePoint[](tempusAMMs.length);
+
+        for (uint256 i = 0; i < tempusAMMs.length; i++) {
+            ITempusPool tempusPool = tempusAMMs[i].token0().pool();
+            require(
+                i == 0 || tempusPool.yieldBearingToken() == curve[0].tempusPool.yieldBearingToken(),
+                "Yield Bearing Token mismatch!"
+            );
+
+            curve[i] = YieldCurvePoint({
+                tempusPool: tempusPool,
+                tempusAMM: tempusAMMs[i],
+                maturityTime: tempusPool.maturityTime(),
+                fixedAPR: tempusPool.matured() ? 0 : impliedFixedAPR(tempusAMMs[i], tempusPool)
+            });
+        }
+    }
+
+    /// @dev Lists the holdings of a user in multiple Tempus Pools with their estimated value in Backing Tokens
+    /// @param user Address of the user
+    /// @param tempusAMMs Tempus AMMs of the pools to query
+    /// @param threshold Maximum amount of Principals or Yields to be left in case of early exit,
+    ///                  as an 1e18 decimal fraction of one share, so it suits pools of any decimals
+    /// @return holdings Holdings of the user, in the order of `tempusAMMs`
+    function portfolioOf(
+        address user,
+        ITempusAMM[] calldata tempusAMMs,
+        uint256 threshold
+    ) external view returns (Holding[] memory holdings) {
+        holdings = new Holding[](tempusAMMs.length);
+
+        for (uint256 i = 0; i < tempusAMMs.length; i++) {
+            holdings[i] = holdingOf(user, tempusAMMs[i], threshold);
+        }
+    }
+
+    function holdingOf(
+        address user,
+        ITempusAMM tempusAMM,
+        uint256 threshold
+    ) private view returns (Holding memory h) {
+        h.tempusAMM = tempusAMM;
+        h.tempusPool = tempusAMM.token0().pool();
+        h.principals = h.tempusPool.principalShare().balanceOf(user);
+        h.yields = h.tempusPool.yieldShare().balanceOf(user);
+        h.lpTokens = tempusAMM.balanceOf(user);
+        if (h.lpTokens > 0) {
+            // composition of an AMM without liquidity would divide by its zero total supply
+            (h.principalsStaked, h.yieldsStaked) = tempusAMM.compositionBalanceOf(user);
+        }
+
+        if (h.principals > 0 || h.yields > 0 || h.lpTokens > 0) {
+            (h.value, , , , ) = estimateExitAndRedeem(
+                tempusAMM,
+                h.tempusPool,
+                h.lpTokens,
+                h.principals,
+                h.yields,
+                threshold.mulfV(h.tempusPool.backingTokenONE(), 1e18),
+                true
+            );
+        }
+    }
 }
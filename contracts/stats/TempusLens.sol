@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity 0.8.10;
+
+import "../ITempusPool.sol";
+import "../math/Fixed256xVar.sol";
+import "../token/PoolShare.sol";
+import "../amm/ITempusAMM.sol";
+
+/// @dev Aggregates the state of multiple Tempus Pools and their Tempus AMMs, so it can be loaded with a single call
+contract TempusLens {
+    using Fixed256xVar for uint256;
+
+    /// @dev State of a Tempus AMM
+    /// @param principals Amount of Principals held by the AMM, in Principal Share precision
+    /// @param yields Amount of Yields held by the AMM, in Yield Share precision
+    /// @param lpTotalSupply Total supply of LP tokens, in 1e18 precision
+    /// @param swapFeePercentage Swap fee as an 1e18 decimal
+    /// @param amplification Current amplification value, in `amplificationPrecision`
+    /// @param amplificationUpdating True if the amplification is currently being updated
+    /// @param amplificationPrecision Precision of `amplification`
+    struct AMMState {
+        uint256 principals;
+        uint256 yields;
+        uint256 lpTotalSupply;
+        uint256 swapFeePercentage;
+        uint256 amplification;
+        bool amplificationUpdating;
+        uint256 amplificationPrecision;
+    }
+
+    /// @dev State of a Tempus Pool and its Tempus AMM
+    /// @param tempusPool The Tempus Pool
+    /// @param tempusAMM The Tempus AMM of the pool, zero address if the pool has no AMM
+    /// @param startTime Start time of the pool
+    /// @param maturityTime Maturity time of the pool
+    /// @param exceptionalHaltTime Time of the exceptional halt, type(uint256).max if the pool was not halted
+    /// @param matured True if the pool has matured
+    /// @param initialInterestRate Interest rate when the pool started, in the pool's interest rate precision
+    /// @param currentInterestRate Current interest rate, in the pool's interest rate precision
+    /// @param pricePerPrincipalShare Stored price of one Principal, in Backing Token precision
+    /// @param pricePerYieldShare Stored price of one Yield, in Backing Token precision
+    /// @param feesConfig Fee percentages of the pool, in Yield Bearing Token precision
+    /// @param totalFees Accumulated fees, in Yield Bearing Token precision
+    /// @param totalValueLocked TVL of the pool, in Backing Token precision
+    /// @param amm State of `tempusAMM`, all zero if the pool has no AMM
+    struct PoolState {
+        ITempusPool tempusPool;
+        ITempusAMM tempusAMM;
+        uint256 startTime;
+        uint256 maturityTime;
+        uint256 exceptionalHaltTime;
+        bool matured;
+        uint256 initialInterestRate;
+        uint256 currentInterestRate;
+        uint256 pricePerPrincipalShare;
+        uint256 pricePerYieldShare;
+        ITempusPool.FeesConfig feesConfig;
+        uint256 totalFees;
+        uint256 totalValueLocked;
+        AMMState amm;
+    }
+
+    /// @dev Gets the state of multiple Tempus Pools and their Tempus AMMs
+    /// @param tempusPools Tempus Pools to query
+    /// @param tempusAMMs Tempus AMM of each pool in `tempusPools`, or zero address to skip the AMM state
+    /// @return states State of each pool, in the order of `tempusPools`
+    function poolStates(ITempusPool[] calldata tempusPools, ITempusAMM[] calldata tempusAMMs)
+        external
+        view
+        returns (PoolState[] memory states)
+    {
+        require(tempusPools.length == tempusAMMs.length, "Pools and AMMs length mismatch!");
+        states = new PoolState[](tempusPools.length);
+
+        for (uint256 i = 0; i < tempusPools.length; i++) {
+            states[i] = poolState(tempusPools[i], tempusAMMs[i]);
+        }
+    }
+
+    /// @dev Gets the state of a Tempus Pool and its Tempus AMM
+    /// @param tempusPool Tempus Pool to query
+    /// @param tempusAMM Tempus AMM of `tempusPool`, or zero address to skip the AMM state
+    function poolState(ITempusPool tempusPool, ITempusAMM tempusAMM) public view returns (PoolState memory state) {
+        state.tempusPool = tempusPool;
+        state.tempusAMM = tempusAMM;
+        state.startTime = tempusPool.startTime();
+        state.maturityTime = tempusPool.maturityTime();
+        state.exceptionalHaltTime = tempusPool.exceptionalHaltTime();
+        state.matured = tempusPool.matured();
+        state.initialInterestRate = tempusPool.initialInterestRate();
+        state.currentInterestRate = tempusPool.currentInterestRate();
+        state.pricePerPrincipalShare = tempusPool.pricePerPrincipalShareStored();
+        state.pricePerYieldShare = tempusPool.pricePerYieldShareStored();
+        state.feesConfig = tempusPool.getFeesConfig();
+        state.totalFees = tempusPool.totalFees();
+
+        uint256 backingTokenONE = tempusPool.backingTokenONE();
+        state.totalValueLocked =
+            tempusPool.principalShare().totalSupply().mulfV(state.pricePerPrincipalShare, backingTokenONE) +
+            tempusPool.yieldShare().totalSupply().mulfV(state.pricePerYieldShare, backingTokenONE);
+
+        if (address(tempusAMM) != address(0)) {
+            require(tempusAMM.token0().pool() == tempusPool, "AMM does not belong to the pool!");
+            state.amm = ammState(tempusAMM);
+        }
+    }
+
+    function ammState(ITempusAMM tempusAMM) private view returns (AMMState memory state) {
+        state.principals = tempusAMM.token0().balanceOf(address(tempusAMM));
+        state.yields = tempusAMM.token1().balanceOf(address(tempusAMM));
+        state.lpTotalSupply = tempusAMM.totalSupply();
+        state.swapFeePercentage = tempusAMM.swapFeePercentage();
+        (state.amplification, state.amplificationUpdating, state.amplificationPrecision) = tempusAMM
+            .getAmplificationParameter();
+    }
+}
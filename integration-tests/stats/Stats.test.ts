@@ -5,16 +5,10 @@ import { generateTempusSharesNames, TempusPool } from "../../test/utils/TempusPo
 import { ERC20 } from "../../test/utils/ERC20";
 import { ContractBase } from "../../test/utils/ContractBase";
 import { decimal } from '../../test/utils/Decimal';
-import { EthPriceQuoteProvider } from '../EthPriceQuoteProvider';
 import { TempusController } from "../../test/utils/TempusController";
 import { describeNonPool } from "../../test/pool-utils/MultiPoolTestSuite";
 import { getAccounts } from "../IntegrationUtils";
 
-if (!process.env.HARDHAT_FORK_NUMBER) {
-  throw new Error('HARDHAT_FORK_NUMBER env var is not defined');
-}
-const FORKED_BLOCK_NUMBER = Number(process.env.HARDHAT_FORK_NUMBER);
-
 const setup = deployments.createFixture(async () => {
   await deployments.fixture(undefined, { keepExistingDeployments: true });
 
@@ -44,8 +38,9 @@ describeNonPool('Stats <> Chainlink', () => {
     // https://docs.chain.link/docs/ethereum-addresses/
     const chainlinkAggregatorNode = "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419"; 
 
-    const currentBlockDate = new Date(1000 * (await ethers.provider.getBlock(FORKED_BLOCK_NUMBER)).timestamp);
-    const ethPriceQuote = await EthPriceQuoteProvider.getDailyQuote(currentBlockDate);
+    const aggregator = await ethers.getContractAt("IChainlinkAggregator", chainlinkAggregatorNode);
+    const [, ethPrice] = await aggregator.latestRoundData();
+    const ethPriceInUSD = decimal(ethPrice, await aggregator.decimals());
 
     // act
     await aWeth.approve(aWethHolder, tempusPool.address, depositAmount);
@@ -53,8 +48,7 @@ describeNonPool('Stats <> Chainlink', () => {
 
     // assert
     const totalValueLockedInUSD = +decimal(await stats.totalValueLockedAtGivenRate(tempusPool.address, chainlinkAggregatorNode));
-    const minExpectedTVLInUSD = +decimal(depositAmount).mul(ethPriceQuote.low);
-    const maxExpectedTVLInUSD = +decimal(depositAmount).mul(ethPriceQuote.high);
-    expect(totalValueLockedInUSD).to.be.within(minExpectedTVLInUSD, maxExpectedTVLInUSD);
+    const expectedTVLInUSD = +decimal(depositAmount).mul(ethPriceInUSD);
+    expect(totalValueLockedInUSD).to.be.closeTo(expectedTVLInUSD, 0.01);
   });
 });
@@ -12,15 +12,20 @@ ENVS=""
 REPORTER="progress"
 ONLY_TOKEN=""
 ONLY_POOL=""
-VALID_TOKENS="DAI USDC ETH all"
-POOLS="Aave Lido Compound Yearn Rari"
-# @see test/Config.ts
+VALID_TOKENS="all"
+POOLS=""
+# @see test/pool-utils/ProtocolRegistry.ts which prints "<Pool> <Tokens...>" lines
 declare -A POOL_TOKENS
-POOL_TOKENS["Aave"]="DAI USDC"
-POOL_TOKENS["Lido"]="ETH"
-POOL_TOKENS["Compound"]="DAI USDC"
-POOL_TOKENS["Yearn"]="DAI USDC"
-POOL_TOKENS["Rari"]="DAI USDC"
+PROTOCOLS=$(npx ts-node --transpile-only test/pool-utils/ProtocolRegistry.ts) || exit 1
+while read -r pool tokens; do
+  POOLS="$POOLS $pool"
+  POOL_TOKENS[$pool]="$tokens"
+  for token in $tokens; do
+    if [[ ! " $VALID_TOKENS " =~ " $token " ]]; then
+      VALID_TOKENS="$token $VALID_TOKENS"
+    fi
+  done
+done <<< "$PROTOCOLS"
 
 if [ -z "$ETH_NODE_URI_MAINNET" ]; then
   echo "env var ETH_NODE_URI_MAINNET was not set! It is required to run the test suite"
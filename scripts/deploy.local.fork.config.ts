@@ -0,0 +1,99 @@
+import { PoolType } from '../test/utils/TempusPool';
+import { ForkManifest } from './fork.manifest';
+
+/**
+ * Pools deployed by deploy.local.fork.ts on a mainnet fork
+ */
+const manifest: ForkManifest = {
+  lidoOracle: '0x442af784a788a5bd6f42a01ebe9f287a871243fb',
+  holders: {
+    DAI: '0xE78388b4CE79068e89Bf8aA7f218eF6b9AB0e9d0',
+    aDAI: '0x3ddfa8ec3052539b6c9549f12cea2c295cff5296',
+    cDAI: '0x9b4772e59385ec732bccb06018e318b7b3477459',
+    stETH: '0xDC24316b9AE028F1497c275EB9192a3Ea0f67022',
+    USDC: '0x47ac0fb4f2d84898e4d9e7b4dab3c24507a6d503',
+    rsptUSDC: '0x741AA7CFB2c7bF2A1E7D4dA2e3Df6a56cA4131F3'
+  },
+  pools: [
+    {
+      protocol: PoolType.Lido,
+      backingToken: 'ETH',
+      yieldBearingTokenContract: 'Lido',
+      ybtName: 'Lido stETH',
+      ybtSymbol: 'stETH',
+      maturityDays: 365,
+      yieldEstimate: 0.05,
+      amm: { lpName: 'Tempus Lido LP Token - 1', lpSymbol: 'LPstETH - 1', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100, impliedRate: 0.04 },
+      frontend: { spotPrice: '1', maxLeftoverShares: '0.00001', showEstimatesInBackingToken: false, protocolDisplayName: 'Lido', decimalsForUI: 4 }
+    },
+    {
+      protocol: PoolType.Rari,
+      backingToken: 'USDC',
+      backingTokenContract: 'Usdc',
+      yieldBearingTokenContract: 'rsptUSDC',
+      underlyingProtocolContract: 'rariUsdcFundManager',
+      ybtName: 'USDC Rari Stable Pool Token',
+      ybtSymbol: 'RSPT',
+      maturityDays: 365,
+      yieldEstimate: 0.1,
+      amm: { lpName: 'Tempus Rari LP Token', lpSymbol: 'LP-RSPT', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100000, impliedRate: 0.08 },
+      frontend: { spotPrice: '2500', maxLeftoverShares: '0.1', showEstimatesInBackingToken: true, protocolDisplayName: 'Rari Capital', decimalsForUI: 2 }
+    },
+    {
+      protocol: PoolType.Yearn,
+      backingToken: 'DAI',
+      backingTokenContract: 'Dai',
+      yieldBearingTokenContract: 'yvDAI',
+      ybtName: 'yvDai Yearn Token',
+      ybtSymbol: 'yvDAI',
+      maturityDays: 365,
+      yieldEstimate: 0.07,
+      amm: { lpName: 'Tempus Yearn LP Token', lpSymbol: 'LP-yvDAI', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100000, impliedRate: 0.06 },
+      frontend: { spotPrice: '2500', maxLeftoverShares: '0.1', showEstimatesInBackingToken: true, protocolDisplayName: 'Yearn', decimalsForUI: 2 }
+    },
+    {
+      protocol: PoolType.Aave,
+      backingToken: 'DAI',
+      backingTokenContract: 'Dai',
+      yieldBearingTokenContract: 'aToken_Dai',
+      ybtName: 'Aave interest bearing DAI',
+      ybtSymbol: 'aDAI',
+      maturityDays: 180,
+      yieldEstimate: 0.03,
+      amm: { lpName: 'Tempus Aave LP Token', lpSymbol: 'LP-aDAI', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100000, impliedRate: 0.03 },
+      frontend: { spotPrice: '2500', maxLeftoverShares: '0.1', showEstimatesInBackingToken: true, protocolDisplayName: 'Aave', decimalsForUI: 2 }
+    },
+    {
+      protocol: PoolType.Compound,
+      backingToken: 'DAI',
+      backingTokenContract: 'Dai',
+      yieldBearingTokenContract: 'cToken_Dai',
+      ybtName: 'Compound Dai',
+      ybtSymbol: 'cDAI',
+      maturityDays: 180,
+      yieldEstimate: 0.03,
+      amm: { lpName: 'Tempus Compound LP Token', lpSymbol: 'LP-cDAI', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100000, impliedRate: 0.03 },
+      frontend: { spotPrice: '2500', maxLeftoverShares: '0.1', showEstimatesInBackingToken: true, protocolDisplayName: 'Compound', decimalsForUI: 2 }
+    },
+    {
+      protocol: PoolType.Maple,
+      backingToken: 'USDC',
+      backingTokenContract: 'Usdc',
+      yieldBearingTokenContract: '0xFeBd6F15Df3B73DC4307B1d7E65D46413e710C27', // Maple Orthogonal Trading USDC Pool
+      ybtName: 'Maple Pool FDT USDC',
+      ybtSymbol: 'MPL-LP',
+      maturityDays: 90,
+      yieldEstimate: 0.1,
+      amm: { lpName: 'Tempus Maple LP Token', lpSymbol: 'LP-MPL-LP', amplifyStart: 5, amplifyEnd: 95, swapFee: 0.002 },
+      liquidity: { backingTokenAmount: 100000, impliedRate: 0.09 },
+      frontend: { spotPrice: '2500', maxLeftoverShares: '0.1', showEstimatesInBackingToken: true, protocolDisplayName: 'Maple', decimalsForUI: 2 }
+    }
+  ]
+};
+
+export default manifest;
@@ -1,41 +1,20 @@
 import { writeFile } from 'fs';
 import { join } from 'path';
-import { ethers } from 'hardhat';
-import { Contract } from '@ethersproject/contracts';
+import { ethers, network } from 'hardhat';
+import * as chalk from 'chalk';
 import { ERC20 } from '../test/utils/ERC20';
-import { generateTempusSharesNames, PoolType, TempusPool } from '../test/utils/TempusPool';
+import { IERC20 } from '../test/utils/IERC20';
+import { generateTempusSharesNames, TempusPool } from '../test/utils/TempusPool';
 import { ContractBase, Signer } from '../test/utils/ContractBase';
 import { TempusController } from '../test/utils/TempusController';
-import { DAY, MONTH, AMP_PRECISION } from '../test/utils/TempusAMM';
+import { TempusPoolAMM } from '../test/utils/TempusPoolAMM';
+import { Stats } from '../test/utils/Stats';
+import { DAY, AMP_PRECISION } from '../test/utils/TempusAMM';
 import { toWei } from '../test/utils/DecimalUtils';
 import { ERC20Ether } from '../test/utils/ERC20Ether';
-
-export interface DeployedPoolInfo {
-  address: string;
-  principalShareAddress: string;
-  yieldShareAddress: string;
-  amm: string;
-  backingToken: string;
-  yieldBearingToken: string;
-  backingTokenAddress: string;
-  yieldBearingTokenAddress: string;
-  protocol: PoolType;
-  estimatedYield: number;
-  spotPrice: string;
-  maxLeftoverShares: string;
-  showEstimatesInBackingToken: boolean;
-  protocolDisplayName: string;
-  decimalsForUI: number;
-  maturityDate: number;
-  startDate: number;
-  tokenPrecision: {
-    backingToken: number;
-    yieldBearingToken: number;
-    principals: number;
-    yields: number;
-    lpTokens: number;
-  }
-}
+import { DeployedPoolInfo, FrontendDeployment, generateCookieBookmark } from './frontend.config';
+import { ForkPoolManifest, resolveContract, validateForkManifest } from './fork.manifest';
+import manifest from './deploy.local.fork.config';
 
 interface DepositConfigData {
   addresses: {
@@ -48,82 +27,9 @@ interface DepositConfigData {
   }
 }
 
-interface CookiePoolInfo {
-  address: string;
-  ammAddress: string;
-  backingToken: string;
-  spotPrice: string;
-  maxLeftoverShares: string;
-  showEstimatesInBackingToken: boolean;
-  protocolDisplayName: string;
-  protocol: string;
-  startDate: number;
-  maturityDate: number;
-  principalsAddress: string;
-  yieldsAddress: string;
-  yieldBearingToken: string;
-  yieldBearingTokenAddress: string;
-  backingTokenAddress: string;
-  decimalsForUI: number;
-  tokenPrecision: {
-    backingToken: number;
-    yieldBearingToken: number;
-    principals: number;
-    yields: number;
-    lpTokens: number;
-  }
-}
-
-interface CookieConfigData {
-  tempusPools: CookiePoolInfo[];
-  statisticsContract: string;
-  tempusControllerContract: string;
-  networkUrl: string;
-  lidoOracle: string;
-  networkName: 'localhost';
-}
-
-interface DeployPoolParams {
-  poolType: PoolType;
-  owner: Signer;
-  backingToken: string;
-  bt: ERC20 | ERC20Ether;
-  ybt: ERC20;
-  maturity: number;
-  ybtName: string;
-  ybtSymbol: string;
-  yieldEstimate: number;
-  lpName: string;
-  lpSymbol: string;
-  spotPrice: string;
-  maxLeftoverShares: string;
-  showEstimatesInBackingToken: boolean;
-  protocolDisplayName: string;
-  decimalsForUI: number;
-  tokenPrecision: {
-    backingToken: number;
-    yieldBearingToken: number;
-    principals: number;
-    yields: number;
-    lpTokens: number;
-  }
-  deploy?: typeof TempusPool.deployAave | typeof TempusPool.deployCompound | typeof TempusPool.deployLido | typeof TempusPool.deployYearn;
-  deployRari?: typeof TempusPool.deployRari;
-}
-
 class DeployLocalForked {
-  private readonly LIDO_ORACLE_ADDRESS = '0x442af784a788a5bd6f42a01ebe9f287a871243fb';
-  private readonly HOLDERS = {
-    DAI: '0xE78388b4CE79068e89Bf8aA7f218eF6b9AB0e9d0',
-    aDAI: '0x3ddfa8ec3052539b6c9549f12cea2c295cff5296',
-    cDAI: '0x9b4772e59385ec732bccb06018e318b7b3477459',
-    stETH: '0xDC24316b9AE028F1497c275EB9192a3Ea0f67022',
-    USDC: '0x47ac0fb4f2d84898e4d9e7b4dab3c24507a6d503',
-    rsptUSDC: '0x741AA7CFB2c7bF2A1E7D4dA2e3Df6a56cA4131F3'
-  }
-
   private controller: TempusController;
-  private stats: Contract;
+  private stats: Stats;
   private owner: Signer;
 
   private deployedTempusPoolsInfo: DeployedPoolInfo[] = [];
@@ -131,184 +37,139 @@ class DeployLocalForked {
   public async deploy() {
     this.owner = (await ethers.getSigners())[0];
 
-    const eth = new ERC20Ether();
-    const Dai = new ERC20("ERC20FixedSupply", 18, (await ethers.getContract('Dai')));
-    const Weth = new ERC20("ERC20", 18, (await ethers.getContract("Weth")));
-    const Usdc = new ERC20('ERC20FixedSupply', 6, (await ethers.getContract('Usdc')));
-    const rsptUsdcYieldToken = new ERC20("ERC20FixedSupply", 18, (await ethers.getContract('rsptUSDC')));
-    const yvDaiYieldToken = new ERC20("ERC20FixedSupply", 18, (await ethers.getContract('yvDAI')));
+    const errors = await validateForkManifest(manifest);
+    if (errors.length > 0) {
+      console.log(chalk.red(`Invalid pool manifest, nothing was deployed:`));
+      errors.forEach(error => console.log(chalk.red(`  ${error}`)));
+      process.exit(1);
+    }
 
-    const aDaiToken = new ERC20("ERC20", 18, (await ethers.getContract('aToken_Dai')));
-    const cDaiToken = new ERC20("ERC20", 8, (await ethers.getContract('cToken_Dai')));
-    const stETHToken = new ERC20("ILido", 18, (await ethers.getContract('Lido')));
-  
     const latestBlock = await ethers.provider.getBlock('latest');
     console.log(`Latest block number: ${latestBlock.number}`);
 
-    const maturityTimeOneYear = latestBlock.timestamp + DAY * 365;
-    const maturityTimeOneMonth = latestBlock.timestamp + MONTH;
-
     this.controller = await TempusController.deploy(this.owner);
-    this.stats = await ContractBase.deployContract("Stats");
-
-    console.log('Deploying Lido Pool - stETH - 1 year duration...');
-    await this.deployPool({
-      poolType: PoolType.Lido,
-      owner: this.owner,
-      backingToken: 'ETH',
-      bt: eth,
-      ybt: stETHToken,
-      maturity: maturityTimeOneYear,
-      yieldEstimate: 0.05,
-      ybtName: 'Lido stETH',
-      ybtSymbol: 'stETH',
-      lpName: 'Tempus Lido LP Token - 1',
-      lpSymbol: 'LPstETH - 1',
-      spotPrice: '1',
-      maxLeftoverShares: '0.00001',
-      showEstimatesInBackingToken: false,
-      protocolDisplayName: 'Lido',
-      decimalsForUI: 4,
-      tokenPrecision: {
-        backingToken: 18,
-        yieldBearingToken: 18,
-        principals: 18,
-        yields: 18,
-        lpTokens: 18,
-      },
-      deploy: TempusPool.deployLido
-    });
-
-    console.log('Deploying Rari Pool - USDC - 1 year duration...');
-    await this.deployPool({
-      poolType: PoolType.Rari,
-      owner: this.owner,
-      backingToken: 'USDC',
-      bt: Usdc,
-      ybt: rsptUsdcYieldToken,
-      maturity: maturityTimeOneYear,
-      yieldEstimate: 0.1,
-      ybtName: 'USDC Rari Stable Pool Token',
-      ybtSymbol: 'RSPT',
-      lpName: 'Tempus Rari LP Token',
-      lpSymbol: 'LP-RSPT',
-      spotPrice: '2500',
-      maxLeftoverShares: '0.1',
-      showEstimatesInBackingToken: true,
-      protocolDisplayName: 'Rari Capital',
-      decimalsForUI: 2,
-      tokenPrecision: {
-        backingToken: 6,
-        yieldBearingToken: 18,
-        principals: 6,
-        yields: 6,
-        lpTokens: 18,
-      },
-      deployRari: TempusPool.deployRari
-    });
+    this.stats = await Stats.create();
 
-    console.log('Deploying Yearn Pool - DAI - 1 year duration...');
-    await this.deployPool({
-      poolType: PoolType.Yearn,
-      owner: this.owner,
-      backingToken: 'DAI',
-      bt: Dai,
-      ybt: yvDaiYieldToken,
-      maturity: maturityTimeOneYear,
-      yieldEstimate: 0.07,
-      ybtName: 'yvDai Yearn Token',
-      ybtSymbol: 'yvDAI',
-      lpName: 'Tempus Yearn LP Token',
-      lpSymbol: 'LP-yvDAI',
-      spotPrice: '2500',
-      maxLeftoverShares: '0.1',
-      showEstimatesInBackingToken: true,
-      protocolDisplayName: 'Yearn',
-      decimalsForUI: 2,
-      tokenPrecision: {
-        backingToken: 18,
-        yieldBearingToken: 18,
-        principals: 18,
-        yields: 18,
-        lpTokens: 18,
-      },
-      deploy: TempusPool.deployYearn
-    });
+    for (const poolManifest of manifest.pools) {
+      console.log(`Deploying ${poolManifest.protocol} Pool - ${poolManifest.ybtSymbol} - ${poolManifest.maturityDays} days duration...`);
+      await this.deployPool(poolManifest, latestBlock.timestamp + DAY * poolManifest.maturityDays);
+    }
 
     console.log('Exporting deposit config...');
     await this.generateDepositConfig();
 
+    const frontendDeployment: FrontendDeployment = {
+      tempusPools: this.deployedTempusPoolsInfo,
+      stats: this.stats.address,
+      tempusController: this.controller.address,
+      lidoOracle: manifest.lidoOracle
+    };
+
     console.log('Generating AWS Cookie Config for frontend...');
-    this.generateCookieBookmark(false);
+    generateCookieBookmark(frontendDeployment, false);
 
     console.log('Generating LOCAL Cookie Config for frontend...');
-    this.generateCookieBookmark(true);
+    generateCookieBookmark(frontendDeployment, true);
   }
 
-  private async deployPool(params: DeployPoolParams) {
-    let pool: TempusPool;
-    if (params.deployRari) {
-      const rariFundManager = await ethers.getContract("rariUsdcFundManager");
-
-      pool = await params.deployRari(
-        params.owner,
-        params.bt as any,
-        params.ybt,
-        rariFundManager.address,
-        this.controller,
-        params.maturity,
-        params.yieldEstimate,
-        generateTempusSharesNames(params.ybtName, params.ybtSymbol, params.maturity)
-      );
-    }
-    else {
-      pool = await params.deploy(
-        params.owner,
-        params.bt,
-        params.ybt,
-        this.controller,
-        params.maturity,
-        params.yieldEstimate,
-        generateTempusSharesNames(params.ybtName, params.ybtSymbol, params.maturity)
-      );
-    }
+  private async deployPool(params: ForkPoolManifest, maturity: number) {
+    const bt: IERC20 = params.backingToken === 'ETH'
+      ? new ERC20Ether()
+      : await ERC20.attach("ERC20FixedSupply", await resolveContract(params.backingTokenContract), /*decimals*/0);
+    const ybt = await ERC20.attach("ERC20FixedSupply", await resolveContract(params.yieldBearingTokenContract), /*decimals*/0);
+    const underlyingProtocol = params.underlyingProtocolContract
+      ? await resolveContract(params.underlyingProtocolContract)
+      : null;
+
+    const pool = await TempusPool.deploy(
+      params.protocol,
+      this.owner,
+      this.controller,
+      bt,
+      ybt,
+      maturity,
+      params.yieldEstimate,
+      generateTempusSharesNames(params.ybtName, params.ybtSymbol, maturity),
+      underlyingProtocol
+    );
 
-    let tempusAMM = await ContractBase.deployContract(
+    const tempusAMM = await ContractBase.deployContract(
       "TempusAMM",
-      params.lpName,
-      params.lpSymbol,
+      params.amm.lpName,
+      params.amm.lpSymbol,
       pool.principalShare.address,
       pool.yieldShare.address,
-      /*amplifyStart*/5 * AMP_PRECISION,
-      /*amplifyEnd*/95 * AMP_PRECISION,
-      params.maturity,
-      toWei(0.002)
+      params.amm.amplifyStart * AMP_PRECISION,
+      params.amm.amplifyEnd * AMP_PRECISION,
+      maturity,
+      toWei(params.amm.swapFee)
     );
 
     await this.controller.register(this.owner, tempusAMM.address);
 
+    if (params.liquidity) {
+      const amm = new TempusPoolAMM(tempusAMM, pool.principalShare, pool.yieldShare);
+      await this.seedLiquidity(params, pool, amm, maturity);
+    }
+
     this.deployedTempusPoolsInfo.push({
       address: pool.address,
       principalShareAddress: pool.principalShare.address,
       yieldShareAddress: pool.yieldShare.address,
       amm: tempusAMM.address,
       backingToken: params.backingToken,
-      backingTokenAddress: params.bt.address,
-      yieldBearingTokenAddress: params.ybt.address,
-      protocol: params.poolType,
+      backingTokenAddress: bt.address,
+      yieldBearingTokenAddress: ybt.address,
+      protocol: params.protocol,
       yieldBearingToken: params.ybtSymbol,
       estimatedYield: params.yieldEstimate,
-      spotPrice: params.spotPrice,
-      maxLeftoverShares: params.maxLeftoverShares,
-      showEstimatesInBackingToken: params.showEstimatesInBackingToken,
-      protocolDisplayName: params.protocolDisplayName,
-      decimalsForUI: params.decimalsForUI,
-      maturityDate: params.maturity,
+      spotPrice: params.frontend.spotPrice,
+      maxLeftoverShares: params.frontend.maxLeftoverShares,
+      showEstimatesInBackingToken: params.frontend.showEstimatesInBackingToken,
+      protocolDisplayName: params.frontend.protocolDisplayName,
+      decimalsForUI: params.frontend.decimalsForUI,
+      maturityDate: maturity,
       startDate: await pool.startTime() as number,
-      tokenPrecision: params.tokenPrecision,
+      tokenPrecision: {
+        backingToken: bt.decimals,
+        yieldBearingToken: ybt.decimals,
+        principals: pool.principalShare.decimals,
+        yields: pool.yieldShare.decimals,
+        lpTokens: 18,
+      },
     });
   }
 
+  /**
+   * Deposits BackingTokens of the manifest holder into the pool and provides the minted Yields
+   * with a fraction of the Principals to the AMM, so that swapping Yields for Principals locks in
+   * the manifest's implied rate until maturity
+   */
+  private async seedLiquidity(params: ForkPoolManifest, pool: TempusPool, amm: TempusPoolAMM, maturity: number) {
+    const amount = params.liquidity.backingTokenAmount;
+    const isEther = params.backingToken === 'ETH';
+    if (!isEther) {
+      await this.sendFromHolder(amount, manifest.holders[params.backingToken], pool.asset as ERC20);
+    }
+
+    const yieldsBefore = await pool.yieldShare.balanceOf(this.owner);
+    await pool.asset.approve(this.owner, this.controller.address, amount);
+    await this.controller.depositBacking(this.owner, pool, amount, this.owner, isEther ? amount : 0);
+    const yields = (await pool.yieldShare.balanceOf(this.owner)).sub(yieldsBefore);
+
+    const duration = maturity - (await pool.startTime() as number);
+    const fixedYieldToMaturity = params.liquidity.impliedRate * duration / (DAY * 365);
+    const principals = yields.mul(fixedYieldToMaturity);
+    await amm.provideLiquidity(this.owner, Number(principals.toTruncated(6)), Number(yields.toTruncated(6)));
+  }
+
+  private async sendFromHolder(amount: number, holder: string, token: ERC20) {
+    await network.provider.request({ method: "hardhat_impersonateAccount", params: [holder] });
+    const holderSigner = await ethers.getSigner(holder);
+    await token.transfer(holderSigner, this.owner, amount);
+    await network.provider.request({ method: "hardhat_stopImpersonatingAccount", params: [holder] });
+  }
+
   private async generateDepositConfig(): Promise<void> {
     const depositConfig: DepositConfigData = {
       addresses: {
@@ -338,7 +199,7 @@ class DeployLocalForked {
           }
         })
       },
-      holders: this.HOLDERS
+      holders: manifest.holders
     };
 
     const exportPath = join(__dirname, '../deposit.local.config.ts');
@@ -355,46 +216,6 @@ class DeployLocalForked {
       })
     });
   }
-
-  private generateCookieBookmark(local: boolean) {
-    const cookieConfig: CookieConfigData = {
-      tempusPools: this.deployedTempusPoolsInfo.map((deployedPoolInfo) => {
-        return {
-          address: deployedPoolInfo.address,
-          ammAddress: deployedPoolInfo.amm,
-          backingToken: deployedPoolInfo.backingToken,
-          spotPrice: deployedPoolInfo.spotPrice,
-          maxLeftoverShares: deployedPoolInfo.maxLeftoverShares,
-          showEstimatesInBackingToken: deployedPoolInfo.showEstimatesInBackingToken,
-          protocolDisplayName: deployedPoolInfo.protocolDisplayName,
-          backingTokenAddress: deployedPoolInfo.backingTokenAddress,
-          yieldBearingTokenAddress: deployedPoolInfo.yieldBearingTokenAddress,
-          decimalsForUI: deployedPoolInfo.decimalsForUI,
-          maturityDate: deployedPoolInfo.maturityDate * 1000, // Scale seconds to milliseconds
-          startDate: deployedPoolInfo.startDate * 1000, // Scale seconds to milliseconds
-          principalsAddress: deployedPoolInfo.principalShareAddress,
-          protocol: deployedPoolInfo.protocol.toLowerCase(),
-          yieldBearingToken: deployedPoolInfo.yieldBearingToken,
-          yieldsAddress: deployedPoolInfo.yieldShareAddress,
-          tokenPrecision: deployedPoolInfo.tokenPrecision
-        }
-      }),
-      networkUrl: local ? 'http://127.0.0.1:8545' : 'https://network.tempus.finance',
-      statisticsContract: this.stats.address,
-      tempusControllerContract: this.controller.address,
-      lidoOracle: this.LIDO_ORACLE_ADDRESS,
-      networkName: 'localhost',
-    }
-
-    const cookieValue = encodeURIComponent(JSON.stringify(cookieConfig));
-
-    // Log bookmark URL value for cookie generation
-    console.log(
-      'javascript:(function() {' +
-        `document.cookie = "TEMPUS_OVERRIDING_CONFIG=${encodeURIComponent(cookieValue)};path=${encodeURIComponent('/')};expires=${new Date(Date.now() + MONTH * 1000).toUTCString()}";` +
-      '})()'
-    );
-  }
 }
 const deployLocalForked = new DeployLocalForked();
 deployLocalForked.deploy();
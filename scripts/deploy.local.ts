@@ -1,46 +1,158 @@
-import { blockTimestamp } from "./../test/utils/Utils";
-import { Aave } from "../test/utils/Aave";
-import { generateTempusSharesNames, TempusPool } from "./../test/utils/TempusPool";
-import { TempusController } from "./../test/utils/TempusController";
-import { TokenInfo } from "../test/pool-utils/TokenInfo";
 import { ethers } from 'hardhat';
+import { constants } from 'ethers';
+import { generateTempusSharesNames, PoolType, TempusPool } from '../test/utils/TempusPool';
+import { TempusController } from '../test/utils/TempusController';
+import { TempusPoolAMM } from '../test/utils/TempusPoolAMM';
+import { Stats } from '../test/utils/Stats';
+import { ContractBase, Signer } from '../test/utils/ContractBase';
+import { DAY, AMP_PRECISION } from '../test/utils/TempusAMM';
+import { fromWei, toWei } from '../test/utils/DecimalUtils';
+import { allProtocols, getProtocol } from '../test/pool-utils/ProtocolRegistry';
+import { createFixture } from '../test/pool-utils/ProtocolFixtures';
+import { UnderlyingProtocol } from '../test/pool-utils/PoolTestFixture';
+import { TokenInfo } from '../test/pool-utils/TokenInfo';
+import { DeployedPoolInfo, FrontendDeployment, generateCookieBookmark } from './frontend.config';
 
-const ASSET:TokenInfo = { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:1000000 };
-const YIELD:TokenInfo = { decimals:18, name:"Aave interest bearing DAI", symbol:"aDAI" };
+const POOL_DURATION = DAY * 365;
+const YIELD_ESTIMATE = 0.1;
+const TARGET_IMPLIED_RATE = 0.05; // fixed APR the AMM liquidity is seeded at
+const SWAP_FEE = 0.002;
 
-async function deployAavePool(initialLiquidityIndex: number): Promise<Aave> {
-  const aave:Aave = await Aave.create(ASSET, YIELD, initialLiquidityIndex);
-  console.log('Aave pool deployed to: ', aave.address);
-  console.log('Backing token deployed to: ', aave.asset.address);
-  console.log('YBT deployed to: ', aave.yieldToken.address);
-  return aave;
+/**
+ * Frontend display settings and the amount of liquidity seeded into the AMM for each backing token
+ */
+interface BackingTokenSettings {
+  spotPrice: string;
+  maxLeftoverShares: string;
+  showEstimatesInBackingToken: boolean;
+  decimalsForUI: number;
+  liquidity: number;
 }
 
-async function deployATokenTempusPool(aave: Aave, poolDurationSeconds: number) {
-  const owner = (await ethers.getSigners())[0];
+const BACKING_TOKEN_SETTINGS: { [symbol: string]: BackingTokenSettings } = {
+  ETH:  { spotPrice: '1',    maxLeftoverShares: '0.00001', showEstimatesInBackingToken: false, decimalsForUI: 4, liquidity: 100 },
+  DAI:  { spotPrice: '2500', maxLeftoverShares: '0.1',     showEstimatesInBackingToken: true,  decimalsForUI: 2, liquidity: 100000 },
+  USDC: { spotPrice: '2500', maxLeftoverShares: '0.1',     showEstimatesInBackingToken: true,  decimalsForUI: 2, liquidity: 100000 },
+};
 
-  const maturityTime = await blockTimestamp() + poolDurationSeconds;
-  const names = generateTempusSharesNames(YIELD.name, YIELD.symbol, maturityTime);
-  const yieldEst = 0.1;
+/**
+ * Deploys every registered protocol mock with a TempusPool and a seeded TempusAMM for each of its tokens,
+ * so that the frontend can be run against a plain local node without any RPC provider or mainnet fork.
+ */
+class DeployLocal {
+  private controller: TempusController;
+  private stats: Stats;
+  private owner: Signer;
 
-  const controller = await TempusController.deploy(owner);
-  const pool = await TempusPool.deployAave(
-    owner, aave.asset, aave.yieldToken, controller, maturityTime, yieldEst, names
-  );
+  private deployedTempusPoolsInfo: DeployedPoolInfo[] = [];
 
-  console.log('AToken TempusPool deployed with length %i sec to: %s', poolDurationSeconds, pool.address);
-}
+  public async deploy() {
+    this.owner = (await ethers.getSigners())[0];
+    this.controller = await TempusController.deploy(this.owner);
+    this.stats = await Stats.create();
+    console.log('TempusController deployed to: ', this.controller.address);
+    console.log('Stats deployed to: ', this.stats.address);
+
+    for (const protocol of allProtocols()) {
+      for (const [asset, yieldToken] of protocol.mockTokens) {
+        console.log(`Deploying ${protocol.type} Pool - ${yieldToken.symbol} - 1 year duration...`);
+        const fixture = createFixture(protocol.type, asset, yieldToken, /*integration*/false);
+        const underlyingPool = await fixture.createMock(/*initialRate*/1.0);
+        await this.deployPool(protocol.type, underlyingPool, asset, yieldToken);
+      }
+    }
+
+    const frontendDeployment: FrontendDeployment = {
+      tempusPools: this.deployedTempusPoolsInfo,
+      stats: this.stats.address,
+      tempusController: this.controller.address,
+      lidoOracle: constants.AddressZero // LidoMock has no oracle
+    };
+
+    console.log('Generating AWS Cookie Config for frontend...');
+    generateCookieBookmark(frontendDeployment, false);
+
+    console.log('Generating LOCAL Cookie Config for frontend...');
+    generateCookieBookmark(frontendDeployment, true);
+  }
+
+  private async deployPool(type: PoolType, underlyingPool: UnderlyingProtocol, asset: TokenInfo, yieldToken: TokenInfo) {
+    const settings = BACKING_TOKEN_SETTINGS[asset.symbol];
+    const backingToken = underlyingPool.asset;
+    const yieldBearingToken = underlyingPool.yieldToken;
+
+    const maturityTime = (await ethers.provider.getBlock('latest')).timestamp + POOL_DURATION;
+    const names = generateTempusSharesNames(yieldToken.name, yieldToken.symbol, maturityTime);
+    const pool = await TempusPool.deploy(
+      type, this.owner, this.controller, backingToken, yieldBearingToken, maturityTime, YIELD_ESTIMATE, names, underlyingPool.address
+    );
+
+    const ammContract = await ContractBase.deployContract(
+      "TempusAMM",
+      `Tempus ${getProtocol(type).displayName} LP Token`,
+      `LP-${yieldToken.symbol}`,
+      pool.principalShare.address,
+      pool.yieldShare.address,
+      /*amplifyStart*/5 * AMP_PRECISION,
+      /*amplifyEnd*/95 * AMP_PRECISION,
+      maturityTime,
+      toWei(SWAP_FEE)
+    );
+    await this.controller.register(this.owner, ammContract.address);
+    const amm = new TempusPoolAMM(ammContract, pool.principalShare, pool.yieldShare);
+
+    await this.seedLiquidity(pool, amm, settings.liquidity);
+
+    console.log('TempusPool deployed to: ', pool.address);
+    console.log('TempusAMM deployed to: ', amm.address);
+    console.log('Implied fixed APR: ', fromWei(await this.stats.contract.impliedFixedAPR(amm.address, pool.address)));
+
+    this.deployedTempusPoolsInfo.push({
+      address: pool.address,
+      principalShareAddress: pool.principalShare.address,
+      yieldShareAddress: pool.yieldShare.address,
+      amm: amm.address,
+      backingToken: asset.symbol,
+      backingTokenAddress: backingToken.address,
+      yieldBearingTokenAddress: yieldBearingToken.address,
+      protocol: type,
+      yieldBearingToken: yieldToken.symbol,
+      estimatedYield: YIELD_ESTIMATE,
+      spotPrice: settings.spotPrice,
+      maxLeftoverShares: settings.maxLeftoverShares,
+      showEstimatesInBackingToken: settings.showEstimatesInBackingToken,
+      protocolDisplayName: getProtocol(type).displayName,
+      decimalsForUI: settings.decimalsForUI,
+      maturityDate: maturityTime,
+      startDate: await pool.startTime() as number,
+      tokenPrecision: {
+        backingToken: asset.decimals,
+        yieldBearingToken: yieldToken.decimals,
+        principals: asset.decimals,
+        yields: asset.decimals,
+        lpTokens: 18,
+      },
+    });
+  }
+
+  /**
+   * Deposits backing tokens into the pool and provides the minted Yields with a fraction of the Principals to the AMM,
+   * so that swapping Yields for Principals locks in TARGET_IMPLIED_RATE until maturity
+   */
+  private async seedLiquidity(pool: TempusPool, amm: TempusPoolAMM, amount: number) {
+    const isEther = pool.asset.address === constants.AddressZero;
+    await pool.asset.approve(this.owner, this.controller.address, amount);
+    await this.controller.depositBacking(this.owner, pool, amount, this.owner, isEther ? amount : 0);
 
-async function main() {
-  // deploy multiple aave pools
-  const aave:Aave = await deployAavePool(100);
-  // deploy one month pool
-  await deployATokenTempusPool(aave, 60*60*24*30);
-  // deploy one year pool
-  await deployATokenTempusPool(aave, 60*60*24*365);
+    // all pools start with 1.0 interest rate, so `amount` of Principals and Yields were minted
+    const fixedYieldToMaturity = TARGET_IMPLIED_RATE * POOL_DURATION / (DAY * 365);
+    const principals = Number((amount * fixedYieldToMaturity).toFixed(6));
+    await amm.provideLiquidity(this.owner, principals, amount);
+  }
 }
 
-main()
+const deployLocal = new DeployLocal();
+deployLocal.deploy()
   .then(() => process.exit(0))
   .catch((error) => {
     console.error(error);
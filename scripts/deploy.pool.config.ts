@@ -1,13 +1,14 @@
 import { writeFileSync, readFileSync } from 'fs';
 import { ethers, network } from 'hardhat';
 import { Contract } from '@ethersproject/contracts';
+import { BigNumber, Signer } from 'ethers';
 import * as utils from './utils';
 import * as chalk from "chalk";
 import { parseDecimal } from "../test/utils/DecimalUtils";
 import { ERC20 } from "../test/utils/ERC20";
 import { AMP_PRECISION } from '../test/utils/TempusAMM';
 
-interface YBTConfig {
+interface ERC20Config {
   address: string;
   decimals: number;
   name: string;
@@ -51,19 +52,46 @@ interface RariConfig {
   fundManager: string;
 }
 
+interface MapleConfig {
+  pool: string;
+  liquidityAsset: ERC20Config;
+}
+
 interface Config {
   kind: string;
   lido?: LidoConfig;
   rari?: RariConfig;
+  maple?: MapleConfig;
   decimals: number;
-  ybt: YBTConfig;
+  ybt: ERC20Config;
   controller: string;
   principal: TokenInfo;
   yield: TokenInfo;
   pool: PoolConfig;
   amm: AMMConfig;
+  registered?: boolean; // set once the pool and the AMM are registered in the controller
+}
+
+/**
+ * Dry run replays the whole deployment on the in-process Hardhat network forked from the target network,
+ * nothing is broadcast and neither deployment records nor the config are written
+ */
+const DRY_RUN = process.env.TEMPUS_DRY_RUN === "1";
+
+/**
+ * Network whose deployment records are matched and written, the forked network in dry run
+ */
+const TARGET_NETWORK = DRY_RUN ? process.env.HARDHAT_FORK : network.name;
+
+interface DryRunStep {
+  label: string;
+  from: string;
+  address: string;
+  gasUsed: BigNumber;
 }
 
+const dryRunSteps: DryRunStep[] = [];
+
 function validateRange(value:number, min:number, max:number) {
   if (value < min) {
     console.log(chalk.red(`Value ${value} below minimum of ${min}`));
@@ -74,48 +102,86 @@ function validateRange(value:number, min:number, max:number) {
   }
 }
 
-async function validateYBT(ybtConfig:YBTConfig, signer) {
-  const ybt = await ERC20.attachWithSigner("ERC20FixedSupply", ybtConfig.address, signer);
+async function validateERC20(label:string, tokenConfig:ERC20Config, signer) {
+  const token = await ERC20.attachWithSigner("ERC20FixedSupply", tokenConfig.address, signer);
 
-  const decimals = ybt.decimals;
-  const name = await ybt.name();
-  const symbol = await ybt.symbol();
+  const decimals = token.decimals;
+  const name = await token.name();
+  const symbol = await token.symbol();
 
-  // Validate YBT details
-  if (ybtConfig.decimals !== decimals) {
-    console.log(chalk.red(`YBT: decimals mismatch: ${ybtConfig.decimals} vs ${decimals}`));
+  // Validate token details
+  if (tokenConfig.decimals !== decimals) {
+    console.log(chalk.red(`${label}: decimals mismatch: ${tokenConfig.decimals} vs ${decimals}`));
     process.exit(1);
   }
-  if (ybtConfig.name !== name) {
-    console.log(chalk.red(`YBT: name mismatch: ${ybtConfig.name} vs ${name}`));
+  if (tokenConfig.name !== name) {
+    console.log(chalk.red(`${label}: name mismatch: ${tokenConfig.name} vs ${name}`));
     process.exit(1);
   }
-  if (ybtConfig.symbol !== symbol) {
-    console.log(chalk.red(`YBT: symbol mismatch: ${ybtConfig.symbol} vs ${symbol}`));
+  if (tokenConfig.symbol !== symbol) {
+    console.log(chalk.red(`${label}: symbol mismatch: ${tokenConfig.symbol} vs ${symbol}`));
     process.exit(1);
   }
 }
 
-async function confirmAndDeploy(contractName:string, directory:string, label:string, args:any, deployerPrivateKey:string, gasLimit?:number): Promise<Contract> {
+async function validateYBT(ybtConfig:ERC20Config, signer) {
+  await validateERC20("YBT", ybtConfig, signer);
+}
+
+async function validateMaple(config:Config, signer) {
+  const mapleConfig = config.maple;
+  if (mapleConfig === undefined) {
+    console.log(chalk.red("Maple: missing `maple` config"));
+    process.exit(1);
+  }
+
+  // The Maple Pool itself is the PoolFDT (YBT) of MapleTempusPool
+  if (mapleConfig.pool.toLowerCase() !== config.ybt.address.toLowerCase()) {
+    console.log(chalk.red(`Maple: pool address mismatch: ${mapleConfig.pool} vs YBT ${config.ybt.address}`));
+    process.exit(1);
+  }
+
+  const maplePool = await ethers.getContractAt("IPool", mapleConfig.pool, signer);
+  const liquidityAsset = await maplePool.liquidityAsset();
+  if (mapleConfig.liquidityAsset.address.toLowerCase() !== liquidityAsset.toLowerCase()) {
+    console.log(chalk.red(`Maple: liquidity asset mismatch: ${mapleConfig.liquidityAsset.address} vs ${liquidityAsset}`));
+    process.exit(1);
+  }
+
+  await validateERC20("Maple Liquidity Asset", mapleConfig.liquidityAsset, signer);
+}
+
+async function confirmAndDeploy(contractName:string, directory:string, label:string, args:any, deployer:Signer, gasLimit?:number): Promise<Contract> {
+  const existing = await utils.getMatchingDeployment(directory, label, contractName, args);
+  if (existing !== null) {
+    console.log(chalk.green(`${label} is already deployed with the same constructor arguments at ${existing.address}, skipping`));
+    return ethers.getContractAt(contractName, existing.address);
+  }
+
   console.log(chalk.yellow(`${contractName} constructor arguments: `));
   console.log(chalk.green(JSON.stringify(args)));
+  if (DRY_RUN) {
+    const contract = await utils.deployContract(contractName, args, deployer, gasLimit);
+    const receipt = await contract.deployTransaction.wait();
+    dryRunSteps.push({ label, from: await deployer.getAddress(), address: contract.address, gasUsed: receipt.gasUsed });
+    return contract;
+  }
+
   if (!(await utils.toggleConfirm("Do you confirm the constructor arguments?"))) {
     console.log(chalk.yellow('Constructor arguments not confirmed.'));
     process.exit(0)
   }
 
-  const contractInstance = await utils.deployContract(contractName, args, deployerPrivateKey, gasLimit);
+  const contractInstance = await utils.deployContract(contractName, args, deployer, gasLimit);
   await utils.waitForContractToBeDeployed(contractInstance.address);
 
-  await utils.generateDeployment(contractInstance, label, directory);
+  await utils.generateDeployment(contractInstance, label, directory, contractName, args);
 
   return contractInstance;
 }
 
-async function deployPool(config:Config, deployerPrivateKey:string): Promise<Config> {
-  const signer = new ethers.Wallet(deployerPrivateKey).connect(ethers.provider);
-
-  await validateYBT(config.ybt, signer);
+async function deployPool(config:Config, deployer:Signer): Promise<Config> {
+  await validateYBT(config.ybt, deployer);
 
   validateRange(config.decimals, 0, 33);
   validateRange(config.ybt.decimals, 0, 33);
@@ -135,6 +201,13 @@ async function deployPool(config:Config, deployerPrivateKey:string): Promise<Con
     contractName = "YearnTempusPool";
   } else if (config.kind === "Rari") {
     contractName = "RariTempusPool";
+  } else if (config.kind === "Aave") {
+    contractName = "AaveTempusPool";
+  } else if (config.kind === "Compound") {
+    contractName = "CompoundTempusPool";
+  } else if (config.kind === "Maple") {
+    contractName = "MapleTempusPool";
+    await validateMaple(config, deployer);
   } else {
     console.log("No suitable protocol found");
     process.exit(1);
@@ -168,16 +241,24 @@ async function deployPool(config:Config, deployerPrivateKey:string): Promise<Con
     poolConstructorArgs.splice(0, 0, config.rari.fundManager);
   }
 
+  // NOTE: special case for Compound
+  if (config.kind === "Compound") {
+    // Insert exchangeRateOne after maturity, `decimals` is the exchange rate precision (18 - 8 + Underlying Decimals)
+    poolConstructorArgs.splice(3, 0, parseDecimal(1.0, config.decimals));
+  }
+
   const ybtSymbol = config.ybt.symbol;
   const tempusPoolContract = await confirmAndDeploy(
     contractName,
-    network.name,
+    TARGET_NETWORK,
     `${contractName}_${ybtSymbol}_maturity-${maturityTimestamp}`,
     poolConstructorArgs,
-    deployerPrivateKey
+    deployer
   );
 
   config.pool.address = tempusPoolContract.address;
+  // the pool is read back below, an unsigned deployment stops the script here until it is broadcast
+  await tempusPoolContract.deployed();
   config.pool.owner = await tempusPoolContract.owner();
 
   config.principal.address = await tempusPoolContract.principalShare();
@@ -186,7 +267,7 @@ async function deployPool(config:Config, deployerPrivateKey:string): Promise<Con
   return config;
 }
 
-async function deployAmm(config:Config, deployerPrivateKey:string): Promise<Config> {
+async function deployAmm(config:Config, deployer:Signer): Promise<Config> {
   validateRange(config.amm.initialAmplificationFactor, 0, 1000);
   validateRange(config.amm.finalAmplificationFactor, 0, 1000);
   validateRange(config.amm.swapFee, 0, 0.03);
@@ -208,10 +289,10 @@ async function deployAmm(config:Config, deployerPrivateKey:string): Promise<Conf
   // Deploy AMM with a hardcoded 5.5M gas limit because otherwise gas estimation fails sometimes for some reason
   const tempusAmmContract = await confirmAndDeploy(
     "TempusAMM",
-    network.name,
+    TARGET_NETWORK,
     `TempusAMM_${ybtSymbol}_maturity-${maturityTimestamp}`,
     ammConstructorArgs,
-    deployerPrivateKey,
+    deployer,
     5500000
   );
 
@@ -219,22 +300,180 @@ async function deployAmm(config:Config, deployerPrivateKey:string): Promise<Conf
   return config;
 }
 
+async function impersonate(address:string): Promise<Signer> {
+  await network.provider.request({ method: "hardhat_impersonateAccount", params: [address] });
+  await network.provider.request({ method: "hardhat_setBalance", params: [address, ethers.utils.parseEther("1000").toHexString()] });
+  return ethers.getSigner(address);
+}
+
+/**
+ * Registers the pool and the AMM in the controller, `controllerOwner` has to be the owner of the controller
+ */
+async function registerInController(config:Config, controllerOwner:Signer): Promise<void> {
+  const controller = await ethers.getContractAt("TempusController", config.controller, controllerOwner);
+  const ownerAddress = await controller.owner();
+  if (ownerAddress !== ethers.utils.getAddress(await controllerOwner.getAddress())) {
+    throw new Error(`TempusController ${config.controller} is owned by ${ownerAddress}, re-run with its signer to register the pool and the AMM`);
+  }
+
+  if (!DRY_RUN && !(await utils.toggleConfirm(`Do you confirm registering ${config.pool.address} and ${config.amm.address} in the controller?`))) {
+    console.log(chalk.yellow('Registration not confirmed.'));
+    return;
+  }
+
+  const contracts = [["TempusController.register(pool)", config.pool.address], ["TempusController.register(amm)", config.amm.address]];
+  for (const [label, address] of contracts) {
+    const tx = await controller.register(address, true);
+    if (DRY_RUN) {
+      const receipt = await tx.wait();
+      dryRunSteps.push({ label, from: ownerAddress, address: controller.address, gasUsed: receipt.gasUsed });
+    } else if (!(controllerOwner instanceof utils.UnsignedTransactionExporter)) {
+      await tx.wait();
+    }
+  }
+  config.registered = true;
+}
+
+async function printGasReport(deployerAddress:string, deployerBalance:BigNumber): Promise<void> {
+  const gasPrice = process.env.TEMPUS_DRY_RUN_GAS_PRICE
+    ? ethers.utils.parseUnits(process.env.TEMPUS_DRY_RUN_GAS_PRICE, "gwei")
+    : await ethers.provider.getGasPrice();
+
+  let totalGas = BigNumber.from(0);
+  let deployerGas = BigNumber.from(0);
+  for (const step of dryRunSteps) {
+    console.log(chalk.green(`${step.label} at ${step.address}: ${step.gasUsed.toString()} gas, sent by ${step.from}`));
+    totalGas = totalGas.add(step.gasUsed);
+    if (step.from === deployerAddress) {
+      deployerGas = deployerGas.add(step.gasUsed);
+    }
+  }
+
+  const gwei = ethers.utils.formatUnits(gasPrice, "gwei");
+  console.log(chalk.green(`Total: ${totalGas.toString()} gas, ${ethers.utils.formatEther(totalGas.mul(gasPrice))} ETH at ${gwei} gwei`));
+
+  const deployerCost = deployerGas.mul(gasPrice);
+  if (deployerBalance.lt(deployerCost)) {
+    console.log(chalk.red(`Deployer balance ${ethers.utils.formatEther(deployerBalance)} ETH does not cover its ${ethers.utils.formatEther(deployerCost)} ETH at ${gwei} gwei`));
+  }
+}
+
+/**
+ * @returns Labels of failed checks
+ */
+async function runSanityChecks(config:Config): Promise<string[]> {
+  const failures:string[] = [];
+  const check = (label:string, passed:boolean, details:string) => {
+    console.log(passed ? chalk.green(`OK   ${label}: ${details}`) : chalk.red(`FAIL ${label}: ${details}`));
+    if (!passed) {
+      failures.push(label);
+    }
+  };
+  const checkEqual = (label:string, actual:any, expected:any) => {
+    const passed = actual.toString().toLowerCase() === expected.toString().toLowerCase();
+    check(label, passed, passed ? actual.toString() : `${actual} vs expected ${expected}`);
+  };
+
+  const pool = await ethers.getContractAt("ITempusPool", config.pool.address);
+  checkEqual("pool.maturityTime", await pool.maturityTime(), Date.parse(config.pool.maturity) / 1000);
+  checkEqual("pool.yieldBearingToken", await pool.yieldBearingToken(), config.ybt.address);
+  checkEqual("pool.controller", await pool.controller(), config.controller);
+
+  const fees = await pool.getFeesConfig();
+  const maxFees = [
+    ["depositPercent", await pool.maxDepositFee(), config.pool.fees.deposit],
+    ["earlyRedeemPercent", await pool.maxEarlyRedeemFee(), config.pool.fees.earlyRedemption],
+    ["matureRedeemPercent", await pool.maxMatureRedeemFee(), config.pool.fees.maturedRedemption]
+  ];
+  for (const [name, maxFee, configuredMaxFee] of maxFees) {
+    checkEqual(`pool max ${name}`, maxFee, parseDecimal(configuredMaxFee, config.ybt.decimals));
+    check(`pool.getFeesConfig().${name}`, fees[name].lte(maxFee), `${fees[name]} of max ${maxFee}`);
+  }
+
+  const principals = await ethers.getContractAt("PrincipalShare", await pool.principalShare());
+  const yields = await ethers.getContractAt("YieldShare", await pool.yieldShare());
+  checkEqual("principals.name", await principals.name(), config.principal.name);
+  checkEqual("principals.symbol", await principals.symbol(), config.principal.symbol);
+  checkEqual("yields.name", await yields.name(), config.yield.name);
+  checkEqual("yields.symbol", await yields.symbol(), config.yield.symbol);
+
+  const amm = await ethers.getContractAt("TempusAMM", config.amm.address);
+  checkEqual("amm.name", await amm.name(), config.amm.lp.name);
+  checkEqual("amm.symbol", await amm.symbol(), config.amm.lp.symbol);
+  checkEqual("amm.swapFeePercentage", await amm.swapFeePercentage(), parseDecimal(config.amm.swapFee, 18));
+
+  const amplification = await amm.getAmplificationParameter();
+  const amp = amplification.value.toNumber() / amplification.precision.toNumber();
+  check(
+    "amm.getAmplificationParameter",
+    amp >= config.amm.initialAmplificationFactor && amp <= config.amm.finalAmplificationFactor,
+    `${amp}${amplification.isUpdating ? " (updating)" : ""} within [${config.amm.initialAmplificationFactor}, ${config.amm.finalAmplificationFactor}]`
+  );
+
+  return failures;
+}
+
+async function dryRun(config:Config) {
+  if (network.name !== "hardhat" || !process.env.HARDHAT_FORK) {
+    console.log(chalk.red("Dry run must run on the in-process hardhat network forked from the target network, set HARDHAT_FORK"));
+    process.exit(1);
+  }
+
+  let deployerAddress = process.env.TEMPUS_DEPLOYER_ADDRESS;
+  if (!deployerAddress) {
+    deployerAddress = (await ethers.getSigners())[0].address;
+    console.log(chalk.yellow(`TEMPUS_DEPLOYER_ADDRESS is not set, predicted addresses are those of a deployment from ${deployerAddress}`));
+  }
+  deployerAddress = ethers.utils.getAddress(deployerAddress);
+  const deployerBalance = await ethers.provider.getBalance(deployerAddress);
+  const deployer = await impersonate(deployerAddress);
+
+  if (config.pool.address === undefined) {
+    config = await deployPool(config, deployer);
+  }
+  if (config.amm.address === undefined) {
+    config = await deployAmm(config, deployer);
+  }
+  if (!config.registered) {
+    const controller = await ethers.getContractAt("TempusController", config.controller);
+    await registerInController(config, await impersonate(await controller.owner()));
+  }
+
+  console.log(chalk.yellow(`Dry run on a fork of ${TARGET_NETWORK}, nothing was broadcast:`));
+  await printGasReport(deployerAddress, deployerBalance);
+
+  const failures = await runSanityChecks(config);
+  if (failures.length > 0) {
+    console.log(chalk.red(`${failures.length} sanity checks failed`));
+    process.exit(1);
+  }
+}
+
 async function deploy(configName:string) {
   let config:Config = JSON.parse(readFileSync(configName, 'utf-8').toString());
 
   console.log(config);
 
-  const deployerPrivateKey = await utils.promptPrivateKey("Enter deployer Private Key");
+  if (DRY_RUN) {
+    await dryRun(config);
+    return;
+  }
+
+  const deployer = await utils.getDeployerSigner();
 
   if (config.pool.address === undefined) {
-    config = await deployPool(config, deployerPrivateKey);
+    config = await deployPool(config, deployer);
   }
 
   if (config.amm.address === undefined) {
-    config = await deployAmm(config, deployerPrivateKey);
+    config = await deployAmm(config, deployer);
   }
-
   writeFileSync(configName, JSON.stringify(config, null, 2));
+
+  if (!config.registered) {
+    await registerInController(config, deployer);
+    writeFileSync(configName, JSON.stringify(config, null, 2));
+  }
 }
 
-deploy(process.env.TEMPUS_POOL_JSON);
+deploy(process.env.TEMPUS_POOL_JSON).then(utils.exportUnsignedTransactions, utils.exitOnScriptError);
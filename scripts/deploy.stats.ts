@@ -1,13 +1,19 @@
 import { network } from 'hardhat';
-import { generateDeployment, waitForContractToBeDeployed, deployContract, promptPrivateKey } from './utils';
+import { generateDeployment, getMatchingDeployment, waitForContractToBeDeployed, deployContract, getDeployerSigner, exportUnsignedTransactions, exitOnScriptError } from './utils';
 
 const CONTRACT_NAME = "Stats";
 
 async function deploy() {
-  const deployerPrivateKey = await promptPrivateKey("Enter deployer Private Key");
-  const contract = await deployContract(CONTRACT_NAME, [], deployerPrivateKey);
+  const existing = await getMatchingDeployment(network.name, CONTRACT_NAME, CONTRACT_NAME, []);
+  if (existing !== null) {
+    console.log(`${CONTRACT_NAME} is already deployed at ${existing.address}, skipping`);
+    return;
+  }
+
+  const deployer = await getDeployerSigner();
+  const contract = await deployContract(CONTRACT_NAME, [], deployer);
   await waitForContractToBeDeployed(contract.address);
-  await generateDeployment(contract, CONTRACT_NAME, network.name);
+  await generateDeployment(contract, CONTRACT_NAME, network.name, CONTRACT_NAME, []);
 }
 
-deploy();
+deploy().then(exportUnsignedTransactions, exitOnScriptError);
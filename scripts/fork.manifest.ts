@@ -0,0 +1,166 @@
+import { deployments, ethers } from 'hardhat';
+import { PoolType } from '../test/utils/TempusPool';
+import { allProtocols } from '../test/pool-utils/ProtocolRegistry';
+
+/**
+ * A contract on the forked network, either a deployment name from `deployments/<network>/*.json` or an address
+ */
+export type ForkContractRef = string;
+
+export interface ForkAMMManifest {
+  lpName: string;
+  lpSymbol: string;
+  amplifyStart: number;
+  amplifyEnd: number;
+  swapFee: number;
+}
+
+/**
+ * Liquidity seeded into the AMM from BackingTokens of the manifest holder
+ */
+export interface ForkLiquidityManifest {
+  backingTokenAmount: number;
+  impliedRate: number; // annualised fixed APR the liquidity is seeded at, eg 0.05 for 5%
+}
+
+export interface ForkFrontendManifest {
+  spotPrice: string;
+  maxLeftoverShares: string;
+  showEstimatesInBackingToken: boolean;
+  protocolDisplayName: string;
+  decimalsForUI: number;
+}
+
+export interface ForkPoolManifest {
+  protocol: PoolType;
+  backingToken: string; // symbol of the BackingToken, 'ETH' for native Ether
+  backingTokenContract?: ForkContractRef; // omitted for native Ether
+  yieldBearingTokenContract: ForkContractRef;
+  underlyingProtocolContract?: ForkContractRef; // required by Rari, the Fund Manager
+  ybtName: string;
+  ybtSymbol: string;
+  maturityDays: number; // days after the latest block of the fork
+  yieldEstimate: number;
+  amm: ForkAMMManifest;
+  liquidity?: ForkLiquidityManifest;
+  frontend: ForkFrontendManifest;
+}
+
+export interface ForkManifest {
+  lidoOracle: string;
+  holders: { [symbol: string]: string }; // accounts impersonated to fund the owner with tokens
+  pools: ForkPoolManifest[];
+}
+
+const SUPPORTED_PROTOCOLS = allProtocols().map(protocol => protocol.type);
+const MIN_AMPLIFICATION = 1;
+const MAX_AMPLIFICATION = 5000;
+const MAX_SWAP_FEE = 0.05;
+
+/**
+ * @returns Address of the contract reference, or null if there is no such deployment
+ */
+export async function resolveContract(ref:ForkContractRef): Promise<string> {
+  if (ethers.utils.isAddress(ref)) {
+    return ref;
+  }
+  const deployment = await deployments.getOrNull(ref);
+  return deployment ? deployment.address : null;
+}
+
+async function validateContract(errors:string[], label:string, ref:ForkContractRef): Promise<void> {
+  const address = await resolveContract(ref);
+  if (address === null) {
+    errors.push(`${label}: unknown deployment '${ref}'`);
+  } else if ((await ethers.provider.getCode(address)) === '0x') {
+    errors.push(`${label}: no contract at ${address} (${ref}) on the fork`);
+  }
+}
+
+function validateRange(errors:string[], label:string, value:number, min:number, max:number): void {
+  if (typeof value !== 'number' || isNaN(value)) {
+    errors.push(`${label}: ${value} is not a number`);
+  } else if (value < min || value > max) {
+    errors.push(`${label}: ${value} must be within [${min}, ${max}]`);
+  }
+}
+
+async function validatePool(errors:string[], manifest:ForkManifest, pool:ForkPoolManifest, index:number): Promise<void> {
+  const label = `pools[${index}] ${pool.protocol} ${pool.ybtSymbol}`;
+
+  if (SUPPORTED_PROTOCOLS.indexOf(pool.protocol) === -1) {
+    errors.push(`${label}: unsupported protocol '${pool.protocol}'`);
+  }
+
+  const isEther = pool.backingToken === 'ETH';
+  if (pool.protocol === PoolType.Lido && !isEther) {
+    errors.push(`${label}: Lido pools must be backed by ETH`);
+  }
+  if (isEther && pool.backingTokenContract !== undefined) {
+    errors.push(`${label}: ETH backed pools must not have a backingTokenContract`);
+  } else if (!isEther && pool.backingTokenContract === undefined) {
+    errors.push(`${label}: missing backingTokenContract of ${pool.backingToken}`);
+  } else if (!isEther) {
+    await validateContract(errors, `${label} backingTokenContract`, pool.backingTokenContract);
+  }
+
+  await validateContract(errors, `${label} yieldBearingTokenContract`, pool.yieldBearingTokenContract);
+  if (pool.protocol === PoolType.Rari) {
+    if (pool.underlyingProtocolContract === undefined) {
+      errors.push(`${label}: Rari pools require the Fund Manager as underlyingProtocolContract`);
+    } else {
+      await validateContract(errors, `${label} underlyingProtocolContract`, pool.underlyingProtocolContract);
+    }
+  }
+
+  validateRange(errors, `${label} maturityDays`, pool.maturityDays, 1, 365 * 10);
+  validateRange(errors, `${label} yieldEstimate`, pool.yieldEstimate, 0, 1);
+
+  validateRange(errors, `${label} amm.amplifyStart`, pool.amm.amplifyStart, MIN_AMPLIFICATION, MAX_AMPLIFICATION);
+  validateRange(errors, `${label} amm.amplifyEnd`, pool.amm.amplifyEnd, MIN_AMPLIFICATION, MAX_AMPLIFICATION);
+  if (pool.amm.amplifyStart > pool.amm.amplifyEnd) {
+    errors.push(`${label}: amm.amplifyStart ${pool.amm.amplifyStart} must not be bigger than amm.amplifyEnd ${pool.amm.amplifyEnd}`);
+  }
+  validateRange(errors, `${label} amm.swapFee`, pool.amm.swapFee, 0, MAX_SWAP_FEE);
+
+  if (pool.liquidity !== undefined) {
+    validateRange(errors, `${label} liquidity.backingTokenAmount`, pool.liquidity.backingTokenAmount, 0, Number.MAX_SAFE_INTEGER);
+    validateRange(errors, `${label} liquidity.impliedRate`, pool.liquidity.impliedRate, 0, 1);
+    if (!isEther && !manifest.holders[pool.backingToken]) {
+      errors.push(`${label}: seeding liquidity requires a holder of ${pool.backingToken}`);
+    }
+  }
+
+  validateRange(errors, `${label} frontend.decimalsForUI`, pool.frontend.decimalsForUI, 0, 18);
+}
+
+/**
+ * Validates the whole manifest against the forked network, so that nothing is deployed from an invalid manifest
+ * @returns Descriptions of all problems found, empty if the manifest is valid
+ */
+export async function validateForkManifest(manifest:ForkManifest): Promise<string[]> {
+  const errors:string[] = [];
+
+  if (!manifest.pools || manifest.pools.length === 0) {
+    errors.push("pools: at least one pool must be configured");
+    return errors;
+  }
+
+  for (const symbol of Object.keys(manifest.holders)) {
+    if (!ethers.utils.isAddress(manifest.holders[symbol])) {
+      errors.push(`holders.${symbol}: '${manifest.holders[symbol]}' is not an address`);
+    }
+  }
+
+  const lpSymbols = new Set<string>();
+  for (let i = 0; i < manifest.pools.length; ++i) {
+    const pool = manifest.pools[i];
+    await validatePool(errors, manifest, pool, i);
+
+    if (lpSymbols.has(pool.amm.lpSymbol)) {
+      errors.push(`pools[${i}]: duplicate amm.lpSymbol '${pool.amm.lpSymbol}'`);
+    }
+    lpSymbols.add(pool.amm.lpSymbol);
+  }
+  return errors;
+}
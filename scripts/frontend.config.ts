@@ -0,0 +1,119 @@
+import { PoolType } from '../test/utils/TempusPool';
+import { MONTH } from '../test/utils/TempusAMM';
+
+export interface DeployedPoolInfo {
+  address: string;
+  principalShareAddress: string;
+  yieldShareAddress: string;
+  amm: string;
+  backingToken: string;
+  yieldBearingToken: string;
+  backingTokenAddress: string;
+  yieldBearingTokenAddress: string;
+  protocol: PoolType;
+  estimatedYield: number;
+  spotPrice: string;
+  maxLeftoverShares: string;
+  showEstimatesInBackingToken: boolean;
+  protocolDisplayName: string;
+  decimalsForUI: number;
+  maturityDate: number;
+  startDate: number;
+  tokenPrecision: {
+    backingToken: number;
+    yieldBearingToken: number;
+    principals: number;
+    yields: number;
+    lpTokens: number;
+  }
+}
+
+interface CookiePoolInfo {
+  address: string;
+  ammAddress: string;
+  backingToken: string;
+  spotPrice: string;
+  maxLeftoverShares: string;
+  showEstimatesInBackingToken: boolean;
+  protocolDisplayName: string;
+  protocol: string;
+  startDate: number;
+  maturityDate: number;
+  principalsAddress: string;
+  yieldsAddress: string;
+  yieldBearingToken: string;
+  yieldBearingTokenAddress: string;
+  backingTokenAddress: string;
+  decimalsForUI: number;
+  tokenPrecision: {
+    backingToken: number;
+    yieldBearingToken: number;
+    principals: number;
+    yields: number;
+    lpTokens: number;
+  }
+}
+
+interface CookieConfigData {
+  tempusPools: CookiePoolInfo[];
+  statisticsContract: string;
+  tempusControllerContract: string;
+  networkUrl: string;
+  lidoOracle: string;
+  networkName: 'localhost';
+}
+
+/**
+ * Contracts of a local deployment which the frontend needs to know about
+ */
+export interface FrontendDeployment {
+  tempusPools: DeployedPoolInfo[];
+  stats: string;
+  tempusController: string;
+  lidoOracle: string;
+}
+
+/**
+ * Logs a bookmarklet which sets the TEMPUS_OVERRIDING_CONFIG cookie of the frontend
+ * @param deployment Deployed contracts to point the frontend to
+ * @param local If true, the frontend connects to the local node, otherwise to the AWS hosted node
+ */
+export function generateCookieBookmark(deployment: FrontendDeployment, local: boolean): void {
+  const cookieConfig: CookieConfigData = {
+    tempusPools: deployment.tempusPools.map((deployedPoolInfo) => {
+      return {
+        address: deployedPoolInfo.address,
+        ammAddress: deployedPoolInfo.amm,
+        backingToken: deployedPoolInfo.backingToken,
+        spotPrice: deployedPoolInfo.spotPrice,
+        maxLeftoverShares: deployedPoolInfo.maxLeftoverShares,
+        showEstimatesInBackingToken: deployedPoolInfo.showEstimatesInBackingToken,
+        protocolDisplayName: deployedPoolInfo.protocolDisplayName,
+        backingTokenAddress: deployedPoolInfo.backingTokenAddress,
+        yieldBearingTokenAddress: deployedPoolInfo.yieldBearingTokenAddress,
+        decimalsForUI: deployedPoolInfo.decimalsForUI,
+        maturityDate: deployedPoolInfo.maturityDate * 1000, // Scale seconds to milliseconds
+        startDate: deployedPoolInfo.startDate * 1000, // Scale seconds to milliseconds
+        principalsAddress: deployedPoolInfo.principalShareAddress,
+        protocol: deployedPoolInfo.protocol.toLowerCase(),
+        yieldBearingToken: deployedPoolInfo.yieldBearingToken,
+        yieldsAddress: deployedPoolInfo.yieldShareAddress,
+        tokenPrecision: deployedPoolInfo.tokenPrecision
+      }
+    }),
+    networkUrl: local ? 'http://127.0.0.1:8545' : 'https://network.tempus.finance',
+    statisticsContract: deployment.stats,
+    tempusControllerContract: deployment.tempusController,
+    lidoOracle: deployment.lidoOracle,
+    networkName: 'localhost',
+  }
+
+  const cookieValue = encodeURIComponent(JSON.stringify(cookieConfig));
+
+  // Log bookmark URL value for cookie generation
+  console.log(
+    'javascript:(function() {' +
+      `document.cookie = "TEMPUS_OVERRIDING_CONFIG=${encodeURIComponent(cookieValue)};path=${encodeURIComponent('/')};expires=${new Date(Date.now() + MONTH * 1000).toUTCString()}";` +
+    '})()'
+  );
+}
@@ -1,30 +1,79 @@
-import { writeFile, readFileSync, mkdirSync, existsSync } from 'fs';
+import { writeFile, writeFileSync, readFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
 import { Contract } from '@ethersproject/contracts';
-import { ethers } from 'hardhat';
+import { artifacts, ethers, network } from 'hardhat';
 import { FormatTypes } from 'ethers/lib/utils';
 import * as prompts from "prompts";
 import * as chalk from "chalk";
-import { BigNumberish } from 'ethers';
+import { BigNumber, BigNumberish, Bytes, Signer, UnsignedTransaction } from 'ethers';
+import { Provider, TransactionRequest, TransactionResponse } from '@ethersproject/abstract-provider';
+import { Deferrable } from '@ethersproject/properties';
 
-export async function generateDeployment(contract: Contract, contractName:string, networkName:string): Promise<void> {  
+/**
+ * Deployment record stored in `deployments/<network>/<label>.json`,
+ * records written before constructor args were tracked only have `address` and `abi`
+ */
+export interface DeploymentRecord {
+  address: string;
+  abi: any[];
+  contractName?: string;
+  args?: any[]; // constructor args, with BigNumbers as decimal strings
+  deployer?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  compiler?: { version: string, optimizer: any };
+  bytecodeHash?: string; // keccak256 of the creation bytecode
+}
+
+/**
+ * Converts constructor args into their JSON representation stored in deployment records
+ */
+export function serializeArgs(args: any[]): any[] {
+  return JSON.parse(JSON.stringify(args, (key, value) => {
+    if (value && value.type === 'BigNumber' && value.hex) {
+      return BigNumber.from(value.hex).toString();
+    }
+    return typeof value === 'number' ? value.toString() : value;
+  }));
+}
+
+async function bytecodeHash(contractName: string): Promise<string> {
+  const artifact = await artifacts.readArtifact(contractName);
+  return ethers.utils.keccak256(artifact.bytecode);
+}
+
+export async function generateDeployment(contract: Contract, label:string, networkName:string, contractName:string = null, constructorArgs:any[] = null): Promise<void> {
   const exportDir = join(__dirname, '../deployments/', networkName);
   if (!existsSync(exportDir)) {
     mkdirSync(exportDir);
   }
 
-  const exportPath = join(exportDir, contractName + '.json');
+  const record: DeploymentRecord = {
+    address: contract.address,
+    abi: JSON.parse(contract.interface.format(FormatTypes.json) as string)
+  };
+  if (contractName !== null) {
+    const artifact = await artifacts.readArtifact(contractName);
+    const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+
+    record.contractName = contractName;
+    record.args = serializeArgs(constructorArgs || []);
+    record.deployer = contract.deployTransaction.from;
+    // unsigned deployments are recorded at their predicted address, without the transaction which is only known once signed
+    if (!(contract.signer instanceof UnsignedTransactionExporter)) {
+      const receipt = await contract.deployTransaction.wait();
+      record.transactionHash = contract.deployTransaction.hash;
+      record.blockNumber = receipt.blockNumber;
+    }
+    record.compiler = { version: buildInfo.solcVersion, optimizer: buildInfo.input.settings.optimizer };
+    record.bytecodeHash = await bytecodeHash(contractName);
+  }
+
+  const exportPath = join(exportDir, label + '.json');
   return new Promise((resolve, reject) => {
     writeFile(
       exportPath, 
-      `${JSON.stringify(
-        {
-          address: contract.address,
-          abi: JSON.parse(contract.interface.format(FormatTypes.json) as string)
-        }, 
-        null, 
-        2
-      )}`, 
+      `${JSON.stringify(record, null, 2)}`, 
       (error) => {
         if (error) {
           console.error('Failed to write deployment to disk!', error);
@@ -38,8 +87,39 @@ export async function generateDeployment(contract: Contract, contractName:string
   });
 }
 
-export async function deployContract(contractName: string, constructorArgs: any[] = [], deployerPrivateKey: string = null, gasLimit: BigNumberish = null) {
-  const contractFactory = await ethers.getContractFactory(contractName, deployerPrivateKey ? new ethers.Wallet(deployerPrivateKey, ethers.provider) : undefined);
+/**
+ * @returns Deployment record of `label`, or null if it was never deployed to `networkName`
+ */
+export function getDeploymentRecord(networkName:string, label:string): DeploymentRecord {
+  const deploymentPath = join(__dirname, '../deployments/', networkName, label + '.json');
+  if (!existsSync(deploymentPath)) return null;
+
+  return JSON.parse(readFileSync(deploymentPath, 'utf-8'));
+}
+
+/**
+ * @returns Deployment record of `label` if it is deployed on `networkName` from the current `contractName` bytecode
+ *          with the same constructor args, otherwise null
+ */
+export async function getMatchingDeployment(networkName:string, label:string, contractName:string, constructorArgs:any[]): Promise<DeploymentRecord> {
+  const record = getDeploymentRecord(networkName, label);
+  if (record === null || record.args === undefined) {
+    return null;
+  }
+
+  const code = await ethers.provider.getCode(record.address);
+  if (code === '0x' || record.contractName !== contractName || record.bytecodeHash !== await bytecodeHash(contractName)) {
+    return null;
+  }
+  if (JSON.stringify(record.args) !== JSON.stringify(serializeArgs(constructorArgs))) {
+    console.log(chalk.yellow(`${label} is deployed at ${record.address} with different constructor args`));
+    return null;
+  }
+  return record;
+}
+
+export async function deployContract(contractName: string, constructorArgs: any[] = [], deployer: Signer = null, gasLimit: BigNumberish = null) {
+  const contractFactory = await ethers.getContractFactory(contractName, deployer ? deployer : undefined);
   return contractFactory.deploy(...constructorArgs, ...(gasLimit ? [{ gasLimit }] : []));
 }
 
@@ -50,10 +130,8 @@ export async function getContract(networkName:string, contractName:string):Promi
 }
 
 export async function getDeployedContractAddress(networkName:string, contractName:string): Promise<string> {
-  const deploymentPath = join(__dirname, '../deployments/', networkName, contractName + '.json');
-  if (!existsSync(deploymentPath)) return null;
-
-  return JSON.parse(readFileSync(deploymentPath, 'utf-8')).address;
+  const record = getDeploymentRecord(networkName, contractName);
+  return record ? record.address : null;
 }
 
 export async function promptAddress(message: string, defaultValue: string = null) {
@@ -107,8 +185,223 @@ export async function toggleConfirm(message: string) : Promise<boolean> {
   return response.value;
 }
 
+/**
+ * How production scripts sign their transactions:
+ * - privateKey: prompts for a raw private key
+ * - keystore: decrypts an encrypted JSON keystore, prompting for its password
+ * - mnemonic: derives the key from a mnemonic and a derivation path
+ * - unsigned: writes unsigned raw transactions to disk for offline signing instead of sending them
+ */
+export type SignerMode = 'privateKey' | 'keystore' | 'mnemonic' | 'unsigned';
+
+export interface SignerOptions {
+  mode: SignerMode;
+  privateKey?: string; // prompted if not set
+  keystorePath?: string;
+  keystorePassword?: string; // prompted if not set
+  mnemonic?: string; // prompted if not set
+  derivationPath?: string; // defaults to the first account, m/44'/60'/0'/0/0
+  address?: string; // account of the offline signer in unsigned mode
+  unsignedTxDir?: string; // defaults to deployments/<network>/unsigned
+}
+
+/**
+ * Reads signer options from TEMPUS_SIGNER (privateKey by default), TEMPUS_KEYSTORE, TEMPUS_DERIVATION_PATH,
+ * TEMPUS_DEPLOYER_ADDRESS and TEMPUS_UNSIGNED_TX_DIR env vars
+ */
+export function signerOptionsFromEnv(): SignerOptions {
+  return {
+    mode: (process.env.TEMPUS_SIGNER || 'privateKey') as SignerMode,
+    keystorePath: process.env.TEMPUS_KEYSTORE,
+    derivationPath: process.env.TEMPUS_DERIVATION_PATH,
+    address: process.env.TEMPUS_DEPLOYER_ADDRESS,
+    unsignedTxDir: process.env.TEMPUS_UNSIGNED_TX_DIR
+  };
+}
+
+/**
+ * Thrown when a script waits for a transaction which the unsigned mode signer only exported
+ */
+export class UnsignedTransactionPending extends Error {
+  /**
+   * @param nonce Nonce of the exported transaction
+   * @param contractAddress Address the contract will have once broadcast, null if the transaction is not a deployment
+   */
+  constructor(readonly nonce: number, readonly contractAddress: string) {
+    super(`Transaction ${nonce} is exported unsigned, it has to be signed and broadcast offline before it is mined`);
+    Object.setPrototypeOf(this, UnsignedTransactionPending.prototype);
+  }
+}
+
+interface ExportedTransaction {
+  contractAddress: string; // null if the transaction is not a deployment
+  transaction: UnsignedTransaction;
+}
+
+/**
+ * Signer which queues every transaction unsigned instead of sending it, with consecutive nonces.
+ * The queue is written to disk at once by `exportQueued`.
+ */
+export class UnsignedTransactionExporter extends ethers.Signer {
+  readonly provider: Provider;
+
+  constructor(
+    readonly address: string,
+    readonly exportDir: string,
+    provider: Provider,
+    readonly queued: ExportedTransaction[] = []
+  ) {
+    super();
+    ethers.utils.defineReadOnly(this, 'provider', provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signMessage(message: string|Bytes): Promise<string> {
+    throw new Error("UnsignedTransactionExporter cannot sign messages");
+  }
+
+  async signTransaction(transaction: Deferrable<TransactionRequest>): Promise<string> {
+    throw new Error("UnsignedTransactionExporter cannot sign transactions, they are exported unsigned");
+  }
+
+  connect(provider: Provider): UnsignedTransactionExporter {
+    return new UnsignedTransactionExporter(this.address, this.exportDir, provider, this.queued);
+  }
+
+  /**
+   * @returns true if `contractAddress` is deployed by a queued transaction
+   */
+  isQueuedDeployment(contractAddress: string): boolean {
+    return this.queued.some(exported => exported.contractAddress === contractAddress);
+  }
+
+  async sendTransaction(transaction: Deferrable<TransactionRequest>): Promise<TransactionResponse> {
+    const request = await ethers.utils.resolveProperties(transaction);
+    const nonce = (this.queued.length > 0)
+      ? this.queued[this.queued.length - 1].transaction.nonce + 1
+      : await this.provider.getTransactionCount(this.address, 'pending');
+    const unsignedTx: UnsignedTransaction = {
+      to: request.to,
+      data: request.data,
+      value: request.value,
+      nonce: nonce,
+      gasLimit: request.gasLimit || await this.provider.estimateGas({ ...request, from: this.address }),
+      gasPrice: request.gasPrice || await this.provider.getGasPrice(),
+      chainId: (await this.provider.getNetwork()).chainId
+    };
+    const contractAddress = unsignedTx.to ? null : ethers.utils.getContractAddress({ from: this.address, nonce: nonce });
+    this.queued.push({ contractAddress, transaction: unsignedTx });
+
+    console.log(chalk.yellow(`Queued unsigned transaction ${nonce}`
+      + (contractAddress ? `, it deploys the contract at ${contractAddress}` : '')));
+    return {
+      to: unsignedTx.to,
+      from: this.address,
+      nonce: nonce,
+      gasLimit: BigNumber.from(unsignedTx.gasLimit),
+      gasPrice: BigNumber.from(unsignedTx.gasPrice),
+      data: ethers.utils.hexlify(unsignedTx.data || '0x'),
+      value: BigNumber.from(unsignedTx.value || 0),
+      chainId: unsignedTx.chainId,
+      hash: null, // only known once signed
+      confirmations: 0,
+      wait: () => Promise.reject(new UnsignedTransactionPending(nonce, contractAddress))
+    };
+  }
+
+  /**
+   * Writes all queued transactions to one JSON file in `exportDir`, in nonce order
+   * @returns Path of the exported JSON, null if nothing is queued
+   */
+  exportQueued(): string {
+    if (this.queued.length === 0) {
+      return null;
+    }
+    if (!existsSync(this.exportDir)) {
+      mkdirSync(this.exportDir, { recursive: true });
+    }
+
+    const chainId = this.queued[0].transaction.chainId;
+    const exportPath = join(this.exportDir, `${chainId}_${this.address}_${this.queued[0].transaction.nonce}.json`);
+    writeFileSync(exportPath, JSON.stringify({
+      from: this.address,
+      transactions: this.queued.map(exported => ({
+        contractAddress: exported.contractAddress,
+        transaction: serializeArgs([exported.transaction])[0],
+        unsignedTransaction: ethers.utils.serializeTransaction(exported.transaction)
+      }))
+    }, null, 2));
+    return exportPath;
+  }
+}
+
+// unsigned mode signer of the running script, its queue is exported when the script exits
+let unsignedExporter: UnsignedTransactionExporter = null;
+
+/**
+ * @returns Signer of production scripts connected to the network provider, see `SignerMode`
+ */
+export async function getDeployerSigner(options: SignerOptions = signerOptionsFromEnv()): Promise<Signer> {
+  if (options.mode === 'privateKey') {
+    const privateKey = options.privateKey || await promptPrivateKey("Enter deployer Private Key");
+    return new ethers.Wallet(privateKey, ethers.provider);
+  }
+  if (options.mode === 'keystore') {
+    if (!options.keystorePath) {
+      throw new Error("keystore signer requires the path of the encrypted JSON keystore");
+    }
+    const keystore = readFileSync(options.keystorePath, 'utf-8');
+    const password = options.keystorePassword || await promptInput("Enter keystore password", null, null, "password");
+    return (await ethers.Wallet.fromEncryptedJson(keystore, password)).connect(ethers.provider);
+  }
+  if (options.mode === 'mnemonic') {
+    const mnemonic = options.mnemonic || await promptInput("Enter deployer mnemonic", null, null, "password");
+    const derivationPath = options.derivationPath || ethers.utils.defaultPath;
+    return ethers.Wallet.fromMnemonic(mnemonic, derivationPath).connect(ethers.provider);
+  }
+  if (options.mode === 'unsigned') {
+    if (!options.address || !ethers.utils.isAddress(options.address)) {
+      throw new Error(`unsigned signer requires the address of the offline signer, got ${options.address}`);
+    }
+    const exportDir = options.unsignedTxDir || join(__dirname, '../deployments/', network.name, 'unsigned');
+    unsignedExporter = new UnsignedTransactionExporter(options.address, exportDir, ethers.provider);
+    return unsignedExporter;
+  }
+  throw new Error(`Unsupported signer mode ${options.mode}`);
+}
+
+/**
+ * Writes the transactions queued by the unsigned mode signer, if any
+ */
+export function exportUnsignedTransactions(): void {
+  const exportPath = (unsignedExporter !== null) ? unsignedExporter.exportQueued() : null;
+  if (exportPath !== null) {
+    console.log(chalk.green(`${unsignedExporter.queued.length} unsigned transaction(s) exported to ${exportPath}, sign and broadcast them offline in nonce order`));
+  }
+}
+
+/**
+ * Exits a script with an error. Transactions queued by the unsigned mode signer before the script stopped are still exported,
+ * the script has to be re-run once they are broadcast to continue with the remaining steps.
+ */
+export function exitOnScriptError(error: any): void {
+  console.error(error);
+  if (unsignedExporter !== null && unsignedExporter.queued.length > 0) {
+    exportUnsignedTransactions();
+    console.error(chalk.red("Script stopped before finishing, re-run it once the exported transactions are mined"));
+  }
+  process.exit(1);
+}
+
 const wait = seconds => new Promise(res => setTimeout(res, seconds * 1000));
 export async function waitForContractToBeDeployed(contractAddress: string): Promise<void> {
+  if (unsignedExporter !== null && unsignedExporter.isQueuedDeployment(contractAddress)) {
+    console.log(chalk.yellow(`${contractAddress} is deployed by an unsigned transaction, not waiting for it`));
+    return;
+  }
   while (true) {
     console.log(chalk.yellow(`Checking if contract ${contractAddress} is deployed yet...`));
     const contractCode = await ethers.provider.getCode(contractAddress);
@@ -1,17 +1,17 @@
-import { run, ethers } from 'hardhat';
-import * as prompt from "prompt";
+import { run, ethers, network } from 'hardhat';
 import * as chalk from "chalk";
+import { DeploymentRecord, getDeploymentRecord } from './utils';
 
 if (!process.env.ETHERSCAN_API_KEY) {
   throw new Error("ETHERSCAN_API_KEY env var must be defined");
 }
 
-if (!process.env.TEMPUS_POOL_CONTRACT) {
-  throw new Error("TEMPUS_POOL_CONTRACT env var must be defined")
+if (!process.env.TEMPUS_POOL_DEPLOYMENT) {
+  throw new Error("TEMPUS_POOL_DEPLOYMENT env var must be defined");
 }
 
-function reverse(s){
-  return s.split("").reverse().join("");
+if (!process.env.TEMPUS_AMM_DEPLOYMENT) {
+  throw new Error("TEMPUS_AMM_DEPLOYMENT env var must be defined");
 }
 
 async function tryVerifyingSource(contractName: string, contractAddress: string, constructorArgs: any[]) {
@@ -31,36 +31,30 @@ async function tryVerifyingSource(contractName: string, contractAddress: string,
   }
 }
 
-async function extractConstructorArgsFromDeploymentInput(contractAddress, contractDeploymentTxId) {
-  const contractCode = await ethers.provider.getCode(contractAddress);
-  const { data } = await ethers.provider.getTransaction(contractDeploymentTxId);
-
-  /// This assumes the serialized constructor arguments are appended
-  //// at the end of the contract deployment tx input (lookup is done using last 8 chars of the contract bytecode).
-  const tempusAmmDeploymentInputConstructorArgsIndex = data.length - reverse(data).indexOf(reverse(contractCode.substr(contractCode.length - 8)))
-  return "0x" + data.substr(tempusAmmDeploymentInputConstructorArgsIndex);
+function readVerifiableRecord(label: string): DeploymentRecord {
+  const record = getDeploymentRecord(network.name, label);
+  if (record === null) {
+    throw new Error(`No deployment record ${label} on ${network.name}`);
+  }
+  if (record.contractName === undefined || record.args === undefined) {
+    throw new Error(`Deployment record ${label} has no contract name and constructor args, it was created before they were recorded`);
+  }
+  return record;
 }
 
-async function main(tempusPoolContractName) {
-  console.log(chalk.green(`Verifying ${tempusPoolContractName} on Etherscan...`));
-
-  const { tempusAmmAddress, tempusAmmDeploymentTxId, tempusPoolDeploymentTxId } = await prompt.get(["tempusAmmAddress", "tempusAmmDeploymentTxId", "tempusPoolDeploymentTxId"]);
-  const tempusAMM = await ethers.getContractAt("TempusAMM", tempusAmmAddress);
+async function main(poolDeployment: string, ammDeployment: string) {
+  const poolRecord = readVerifiableRecord(poolDeployment);
+  const ammRecord = readVerifiableRecord(ammDeployment);
+  console.log(chalk.green(`Verifying ${poolRecord.contractName} on Etherscan...`));
 
-  const tempusPool = await ethers.getContractAt(tempusPoolContractName, await tempusAMM.tempusPool()); 
+  const tempusPool = await ethers.getContractAt(poolRecord.contractName, poolRecord.address);
   const principals = await ethers.getContractAt("PrincipalShare", await tempusPool.principalShare());
   const yields = await ethers.getContractAt("YieldShare", await tempusPool.yieldShare());
 
-  const tempusAmmConstructorArgsHex = await extractConstructorArgsFromDeploymentInput(tempusAmmAddress, tempusAmmDeploymentTxId);
-  const tempusPoolConstructorArgsHex = await extractConstructorArgsFromDeploymentInput(tempusPool.address, tempusPoolDeploymentTxId);
-  
-  const tempusAMMConstructorArgs = [...ethers.utils.defaultAbiCoder.decode(tempusAMM.interface.deploy.inputs, tempusAmmConstructorArgsHex)];
-  const tempusPoolConstructorArgs = [...ethers.utils.defaultAbiCoder.decode(tempusPool.interface.deploy.inputs, tempusPoolConstructorArgsHex)];
-  
-  await tryVerifyingSource("TempusAMM", tempusAMM.address, tempusAMMConstructorArgs);
-  await tryVerifyingSource(tempusPoolContractName, tempusPool.address, tempusPoolConstructorArgs);
+  await tryVerifyingSource(ammRecord.contractName, ammRecord.address, ammRecord.args);
+  await tryVerifyingSource(poolRecord.contractName, poolRecord.address, poolRecord.args);
   await tryVerifyingSource("PrincipalShare", principals.address, await Promise.all([tempusPool.address, principals.name(), principals.symbol(), principals.decimals()]));
   await tryVerifyingSource("YieldShare", yields.address, await Promise.all([tempusPool.address, yields.name(), yields.symbol(), yields.decimals()]));
 }
 
-main(process.env.TEMPUS_POOL_CONTRACT)
+main(process.env.TEMPUS_POOL_DEPLOYMENT, process.env.TEMPUS_AMM_DEPLOYMENT);
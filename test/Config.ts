@@ -1,14 +1,10 @@
 import { TokenInfo } from "./pool-utils/TokenInfo";
 import { PoolType } from "./utils/TempusPool";
+import { allProtocols } from "./pool-utils/ProtocolRegistry";
 
 // Default list of all Pool Types that will be run during tests
-export const ALL_POOLS = [
-    PoolType.Aave,
-    PoolType.Lido,
-    PoolType.Compound,
-    PoolType.Yearn,
-    PoolType.Rari
-];
+// @see ProtocolRegistry for adding new protocols
+export const ALL_POOLS:PoolType[] = allProtocols().map(protocol => protocol.type);
 
 // Set this to `PoolType.XXX` if you want to only run one specific pool's tests
 const ONLY_RUN_POOL:PoolType = undefined;
@@ -19,68 +15,6 @@ const ONLY_TOKEN_SYMBOL:string = undefined;
 // Is this an integration test run?
 const RUN_INTEGRATION_TESTS:boolean = false;
 
-const TOTAL_SUPPLY = 10000000000;
-
-// pairs of [ASSET_TOKEN, YIELD_TOKEN] infos
-// for standard unit tests which use mock protocols
-const MOCK_TOKENS: { [type:string]: TokenInfo[][]; } = {
-  "Aave": [
-    [
-      { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
-      { decimals:18, name:"Aave interest bearing DAI", symbol:"aDAI" }
-    ],
-    [
-      { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
-      { decimals:6, name:"Aave interest bearing USDC", symbol:"aUSDC" } // similar to USDT
-    ]
-  ],
-  "Compound": [
-    [
-      { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
-      { decimals:8,  name:"Compound Dai", symbol:"cDAI" }
-    ],
-    [
-      { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
-      { decimals:8, name:"Compound USD Coin", symbol:"cUSDC" }
-    ]
-  ],
-  "Lido": [
-    [
-      { decimals:18, name:"ETH Mock", symbol:"ETH", totalSupply:TOTAL_SUPPLY },
-      { decimals:18, name:"Liquid staked Ether 2.0", symbol:"stETH" }
-    ]
-  ],
-  "Yearn": [
-    [
-      { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
-      { decimals:18,  name:"Dai yVault", symbol:"yvDAI" }
-    ],
-    [
-      { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
-      { decimals:6, name:"USDC yVault", symbol:"yvUSDC" }
-    ]
-  ],
-  "Rari": [
-    [
-      { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
-      { decimals:18,  name:"Rari DAI Pool Token", symbol:"RDPT" }
-    ],
-    [
-      { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
-      { decimals:18, name:"Rari Stable Pool Token", symbol:"RSPT" }
-    ]
-  ]
-};
-
-const INTEGRATION_TOKENS: { [type:string]: TokenInfo[][]; } = {
-  "Lido": [
-    [
-      { decimals:18, name:"ETH Mock", symbol:"ETH", totalSupply:TOTAL_SUPPLY },
-      { decimals:18, name:"Liquid staked Ether 2.0", symbol:"stETH", deploymentName:"Lido" }
-    ]
-  ]
-}
-
 // If true, only integration tests should be run
 export function isIntegrationTestsEnabled(): boolean {
   const env = process.env["INTEGRATION"];
@@ -103,6 +37,14 @@ export function getOnlyRunToken(): string {
 }
 
 // Either Mock tokens or mainnet fork integration tokens
+// as pairs of [ASSET_TOKEN, YIELD_TOKEN] infos for each PoolType
 export function getTokens(integration:boolean): { [type:string]: TokenInfo[][]; } {
-  return integration ? INTEGRATION_TOKENS : MOCK_TOKENS;
+  const tokens: { [type:string]: TokenInfo[][]; } = {};
+  for (const protocol of allProtocols()) {
+    const pairs = integration ? protocol.integrationTokens : protocol.mockTokens;
+    if (pairs) {
+      tokens[protocol.type] = pairs;
+    }
+  }
+  return tokens;
 }
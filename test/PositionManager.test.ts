@@ -5,8 +5,9 @@ import { PoolType, TempusPool } from "./utils/TempusPool";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
 import { TempusPoolAMM } from "./utils/TempusPoolAMM";
-import { parseDecimal, toWei } from "./utils/DecimalUtils";
-import { Contract, constants } from "ethers";
+import { BurnParams, PositionManager } from "./utils/PositionManager";
+import { Stats } from "./utils/Stats";
+import { constants } from "ethers";
 
 
 describeForEachPool("PositionManager", (testPool:PoolTestFixture) =>
@@ -14,21 +15,18 @@ describeForEachPool("PositionManager", (testPool:PoolTestFixture) =>
   let owner:Signer, user1:Signer, user2:Signer, user3:Signer;
   let pool:TempusPool;
   let amm:TempusPoolAMM;
-  let positionManager: Contract;
+  let positionManager:PositionManager;
+
+  const BURN_PARAMS:BurnParams = { maxLeftoverShares: "0.01", yieldsRate: "0.1", maxSlippage: 0.03, toBackingToken: false };
 
   beforeEach(async () =>
   {
     pool = await testPool.createDefault();
     [owner, user1, user2, user3] = testPool.signers;
-    
+
     amm = testPool.amm;
-    positionManager = await ContractBase.deployContract("PositionManager", testPool.controller.address, "Tempus Positions", "POSITION");
+    positionManager = await PositionManager.deploy(testPool.controller);
     await testPool.setupAccounts(owner, [[user1,/*ybt*/1000000],[user2,/*ybt*/100000], [user3,/*ybt*/100000]]);
-    await pool.yieldBearing.approve(user1, positionManager.address, 100000);
-    await pool.yieldBearing.approve(user2, positionManager.address, 100000);
-    await pool.yieldBearing.approve(user3, positionManager.address, 100000);
-
-    await pool.asset.approve(user1, positionManager.address, 100000);
     await initAMM(user1, /*ybtDeposit*/200000, /*principals*/20000, /*yields*/200000); // 10% rate
   });
 
@@ -41,327 +39,276 @@ describeForEachPool("PositionManager", (testPool:PoolTestFixture) =>
 
   it("verifies 3 user position mints followed by 3 burns completely empties the contract from Yields and Capitals", async () =>
   {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.6", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
-
-    await positionManager.connect(user2).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(0),
-      tokenAmountToDeposit: parseDecimal(1.2, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("10.4", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user2.address,
-      isBackingToken: false
-    });
-
-    await positionManager.connect(user3).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2.5),
-      tokenAmountToDeposit: parseDecimal(22.2, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.6", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user3.address,
-      isBackingToken: false
-    });
+    const id1 = await positionManager.mintLeveraged(user1, pool, amm, /*leverage*/2, 1, /*isBackingToken*/false, "9.6");
+    const id2 = await positionManager.mintFixed(user2, pool, amm, 1.2, /*isBackingToken*/false, "10.4");
+    const id3 = await positionManager.mintLeveraged(user3, pool, amm, /*leverage*/2.5, 22.2, /*isBackingToken*/false, "9.6");
 
     const [position1, position2, position3] = await Promise.all([
-      positionManager.position(1),
-      positionManager.position(2),
-      positionManager.position(3)
+      positionManager.position(pool, id1),
+      positionManager.position(pool, id2),
+      positionManager.position(pool, id3)
     ]);
 
-    expect(await pool.principalShare.contract.balanceOf(positionManager.address)).to.be.equal(
-      position1.capitals.add(position2.capitals).add(position3.capitals)
+    expect((await pool.principalShare.balanceOf(positionManager)).toString()).to.be.equal(
+      position1.capitals.add(position2.capitals).add(position3.capitals).toString()
     );
-    expect(await pool.yieldShare.contract.balanceOf(positionManager.address)).to.be.equal(
-      position1.yields.add(position2.yields).add(position3.yields)
+    expect((await pool.yieldShare.balanceOf(positionManager)).toString()).to.be.equal(
+      position1.yields.add(position2.yields).add(position3.yields).toString()
     );
 
-    await positionManager.connect(user1).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user1.address
-    });
-
-    await positionManager.connect(user2).burn(2, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user2.address
-    });
+    await positionManager.burn(user1, pool, id1, BURN_PARAMS);
+    await positionManager.burn(user2, pool, id2, BURN_PARAMS);
+    await positionManager.burn(user3, pool, id3, BURN_PARAMS);
 
-    await positionManager.connect(user3).burn(3, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user3.address
-    });
-
-    expect(await pool.principalShare.contract.balanceOf(positionManager.address)).to.be.equal(0);
-    expect(await pool.yieldShare.contract.balanceOf(positionManager.address)).to.be.equal(0);
+    expect(+await pool.principalShare.balanceOf(positionManager)).to.be.equal(0);
+    expect(+await pool.yieldShare.balanceOf(positionManager)).to.be.equal(0);
   });
 
   it("verifies minting a fixed rate position sells all yields", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(0),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("10.3", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
+    const id = await positionManager.mintFixed(user1, pool, amm, 1, /*isBackingToken*/false, "10.3");
 
-    const position = await positionManager.position(1);
-    
-    expect(position.yields.eq(0)).to.be.true;
-    expect(position.capitals.gt(parseDecimal(1, amm.token0.decimals))).to.be.true;
+    const position = await positionManager.position(pool, id);
+
+    expect(+position.yields).to.be.equal(0);
+    expect(+position.capitals).to.be.greaterThan(1);
   });
 
   it("verifies position ids increment correctly", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
+    expect(await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0")).to.be.equal(1);
+    expect((await positionManager.position(pool, 1)).amm).to.be.equal(amm.address);
 
-    expect((await positionManager.position(1)).tempusAMM).to.be.equal(amm.address);
+    expect(await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0")).to.be.equal(2);
+    await positionManager.burn(user1, pool, 1, BURN_PARAMS);
+    expect(await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0")).to.be.equal(3);
 
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
-
-    await positionManager.connect(user1).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user1.address
-    });
-
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
-    
-    expect((await positionManager.position(1)).tempusAMM).to.be.equal(constants.AddressZero);
-    expect((await positionManager.position(2)).tempusAMM).to.be.equal(amm.address);
-    expect((await positionManager.position(3)).tempusAMM).to.be.equal(amm.address);
+    expect((await positionManager.position(pool, 1)).amm).to.be.equal(constants.AddressZero);
+    expect((await positionManager.position(pool, 2)).amm).to.be.equal(amm.address);
+    expect((await positionManager.position(pool, 3)).amm).to.be.equal(amm.address);
   });
 
   it("verifies it's not possible to burn other users' positions", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
 
-    (await expectRevert(positionManager.connect(user2).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user2.address
-    }))).to.equal(":UnauthorizedBurn");
+    (await expectRevert(positionManager.burn(user2, pool, id, BURN_PARAMS))).to.equal(":UnauthorizedBurn");
   });
 
   it("verifies a minter with a position with a 3rd party recipient cannot burn the position", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user2.address,
-      isBackingToken: false
-    });
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0", /*recipient*/user2);
+    expect(await positionManager.ownerOf(id)).to.be.equal(user2.address);
 
-    (await expectRevert(positionManager.connect(user1).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user1.address
-    }))).to.equal(":UnauthorizedBurn");
+    (await expectRevert(positionManager.burn(user1, pool, id, BURN_PARAMS))).to.equal(":UnauthorizedBurn");
   });
 
   it("verifies a recipient of a minted position can burn the position", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user2.address,
-      isBackingToken: false
-    });
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0", /*recipient*/user2);
 
-    await positionManager.connect(user2).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user2.address
-    });
+    await positionManager.burn(user2, pool, id, BURN_PARAMS);
 
-    expect((await positionManager.position(1)).tempusAMM).to.be.equal(constants.AddressZero);
+    expect((await positionManager.position(pool, id)).amm).to.be.equal(constants.AddressZero);
   });
 
   it("verifies trying to mint a position with an invalid LeverageMultiplier reverts", async () => {
-    const invalidAction = positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(0.5),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user2.address,
-      isBackingToken: false
-    });
+    const invalidAction = positionManager.mintLeveraged(user1, pool, amm, 0.5, 1, /*isBackingToken*/false, "9.0", /*recipient*/user2);
 
     (await expectRevert(invalidAction)).to.equal(":InvalidLeverageMultiplier");
   });
 
   it("verifies burning a position of a matured pool works", async () => {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
-    
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
     await testPool.fastForwardToMaturity();
 
-    const balanceBefore = await pool.yieldBearing.contract.balanceOf(user1.address);
-    await positionManager.connect(user1).burn(1, {
+    const balanceBefore = +await pool.yieldBearing.balanceOf(user1);
+    const liquidated = await positionManager.burn(user1, pool, id, {
       maxLeftoverShares: 0, // 0 since a swap shouldn't be necessary after maturity
-      yieldsRate: 1, // 1 since a swap shouldn't be necessary after maturity
+      yieldsRate: 1, // any rate, since a swap shouldn't be necessary after maturity
       maxSlippage: 0, // 0 since a swap shouldn't be necessary after maturity
-      deadline: 0, // 0 since a swap shouldn't be necessary after maturity
-      toBackingToken: false,
-      recipient: user1.address
+      deadline: new Date(0), // 0 since a swap shouldn't be necessary after maturity
+      toBackingToken: false
     });
-    const balanceAfter = await pool.yieldBearing.contract.balanceOf(user1.address);
-    
-    expect(balanceAfter.gt(balanceBefore)).to.be.true;
+    const balanceAfter = +await pool.yieldBearing.balanceOf(user1);
+
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+    expect(balanceAfter - balanceBefore).to.be.closeTo(+liquidated, 0.000001);
   });
 
   it("verifies burning a position to a 3rd party send liquidated tokens to 3rd party", async () =>
   {
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
 
-    const user1BalanceBefore = await pool.yieldBearing.contract.balanceOf(user1.address);
-    const user2BalanceBefore = await pool.yieldBearing.contract.balanceOf(user2.address);
-    await positionManager.connect(user1).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: false,
-      recipient: user2.address
-    });
-    const user1BalanceAfter = await pool.yieldBearing.contract.balanceOf(user1.address);
-    const user2BalanceAfter = await pool.yieldBearing.contract.balanceOf(user2.address);
+    const user1BalanceBefore = +await pool.yieldBearing.balanceOf(user1);
+    const user2BalanceBefore = +await pool.yieldBearing.balanceOf(user2);
+    await positionManager.burn(user1, pool, id, { ...BURN_PARAMS, recipient: user2 });
+    const user1BalanceAfter = +await pool.yieldBearing.balanceOf(user1);
+    const user2BalanceAfter = +await pool.yieldBearing.balanceOf(user2);
 
-    expect(user1BalanceBefore.eq(user1BalanceAfter)).to.be.true;
-    expect(user2BalanceAfter.gt(user2BalanceBefore)).to.be.true;
+    expect(user1BalanceAfter).to.be.equal(user1BalanceBefore);
+    expect(user2BalanceAfter).to.be.greaterThan(user2BalanceBefore);
   });
 
   it("verifies burning a position with toBackingToken=true liquidates funds to Backing Tokens", async () => {
     if (testPool.type === PoolType.Lido) return; /// redemption to Backing Token is not supported with Lido
-    await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.yieldBearing.decimals), /// toWei it
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: false
-    });
-    
-    const balanceBefore = await pool.asset.balanceOf(user1.address);
-    await positionManager.connect(user1).burn(1, {
-      maxLeftoverShares: parseDecimal("0.01", amm.token0.decimals),
-      yieldsRate: parseDecimal("0.1", amm.token0.decimals),
-      maxSlippage: toWei(0.03),
-      deadline: 2594275590,
-      toBackingToken: true,
-      recipient: user1.address
-    });
-    const balanceAfter = await pool.asset.balanceOf(user1.address);
-    
-    expect(Number(balanceAfter)).to.be.greaterThan(Number(balanceBefore));
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+    const balanceBefore = +await pool.asset.balanceOf(user1);
+    await testPool.openWithdrawWindow();
+    await positionManager.burn(user1, pool, id, { ...BURN_PARAMS, toBackingToken: true });
+    const balanceAfter = +await pool.asset.balanceOf(user1);
+
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
   });
 
   it("verifies minting a position with toBackingToken=true collects Backing Tokens", async () => {
     const depositAmount = 1;
-    const balanceBefore = await pool.asset.balanceOf(user1.address);
-    
-    const tx = await positionManager.connect(user1).mint({
-      tempusAMM: amm.address,
-      leverageMultiplier: toWei(2),
-      tokenAmountToDeposit: parseDecimal(1, pool.asset.decimals),
-      worstAcceptableCapitalsRate: parseDecimal("9.0", amm.token0.decimals),
-      deadline: 2594275590,
-      recipient: user1.address,
-      isBackingToken: true
-    }, { value: testPool.type === PoolType.Lido ? parseDecimal(1, pool.asset.decimals) : 0 });
-    
-    const balanceAfter = parseDecimal(await pool.asset.balanceOf(user1.address), pool.asset.decimals);
-    const expectedBalanceAfter = parseDecimal(Number(balanceBefore) - depositAmount, pool.asset.decimals);
+    const balanceBefore = await pool.asset.balanceOf(user1);
+
+    await positionManager.mintLeveraged(user1, pool, amm, 2, depositAmount, /*isBackingToken*/true, "9.0");
+
+    const balanceAfter = await pool.asset.balanceOf(user1);
+    const expectedBalanceAfter = balanceBefore.sub(depositAmount);
     if (testPool.type === PoolType.Lido) {
-      expect(balanceAfter.lt(expectedBalanceAfter)).to.be.true; // BN.lt is used since some ETH will be consumed for gas 
+      expect(balanceAfter.lt(expectedBalanceAfter)).to.be.true; // lt is used since some ETH will be consumed for gas
     }
     else {
-      expect(balanceAfter.eq(expectedBalanceAfter)).to.be.true;
+      expect(balanceAfter.equals(expectedBalanceAfter)).to.be.true;
+    }
+  });
+
+  it("verifies positions are enumerated by owner", async () => {
+    const id1 = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+    const id2 = await positionManager.mintFixed(user1, pool, amm, 1, /*isBackingToken*/false, "10.3");
+    const id3 = await positionManager.mintFixed(user2, pool, amm, 1, /*isBackingToken*/false, "10.3");
+
+    expect(await positionManager.totalSupply()).to.be.equal(3);
+    expect(await positionManager.balanceOf(user1)).to.be.equal(2);
+    expect(await positionManager.tokensOfOwner(user1)).to.deep.equal([id1, id2]);
+    expect(await positionManager.tokensOfOwner(user2)).to.deep.equal([id3]);
+
+    await positionManager.burn(user1, pool, id1, BURN_PARAMS);
+    await positionManager.contract.connect(user2).transferFrom(user2.address, user1.address, id3);
+
+    expect(await positionManager.totalSupply()).to.be.equal(2);
+    expect(await positionManager.tokensOfOwner(user1)).to.deep.equal([id2, id3]);
+    expect(await positionManager.tokensOfOwner(user2)).to.deep.equal([]);
+  });
+
+  it("verifies the estimated value of a position matches the liquidated amount", async () => {
+    const stats = await Stats.create();
+    const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+    const estimate = +await stats.estimatedPositionValue(testPool, positionManager, id, /*toBackingToken*/false);
+    const liquidated = +await positionManager.burn(user1, pool, id, BURN_PARAMS);
+
+    expect(liquidated).to.be.closeTo(estimate, 0.01);
+  });
+
+  it("verifies Stats lists open positions with their value and profit", async () => {
+    const stats = await Stats.create();
+    const fixedId = await positionManager.mintFixed(user1, pool, amm, 1, /*isBackingToken*/true, "10.3");
+    const leveragedId = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/true, "9.0");
+
+    const positions = await stats.positionsOf(positionManager, user1, [pool]);
+    expect(positions.map(p => p.tokenId)).to.deep.equal([fixedId, leveragedId]);
+    expect(positions.map(p => p.leveraged)).to.deep.equal([false, true]);
+
+    for (const p of positions) {
+      expect(p.pool).to.be.equal(pool);
+      expect(+p.depositedBackingTokens).to.be.equal(1);
+      expect(+p.value).to.be.closeTo(1, 0.1);
+      expect(+p.profitLoss).to.be.equal(+p.value.sub(1));
     }
+
+    expect(await stats.positionsOf(positionManager, user2, [pool])).to.deep.equal([]);
+  });
+
+  describe("Increase", () =>
+  {
+    it("verifies increasing a fixed rate position adds Capitals only", async () => {
+      const id = await positionManager.mintFixed(user1, pool, amm, 1, /*isBackingToken*/true, "10.3");
+      const before = await positionManager.position(pool, id);
+
+      await positionManager.increase(user1, pool, id, /*leverage*/0, 2, /*isBackingToken*/true, "10.3");
+      const after = await positionManager.position(pool, id);
+
+      expect(+after.yields).to.be.equal(0);
+      expect(+after.capitals).to.be.greaterThan(+before.capitals * 2);
+      expect(+after.depositedBackingTokens).to.be.equal(3);
+      expect(after.amm).to.be.equal(amm.address);
+    });
+
+    it("verifies increasing a leveraged position adds Capitals and Yields", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+      const before = await positionManager.position(pool, id);
+
+      await positionManager.increase(user1, pool, id, /*leverage*/2, 1, /*isBackingToken*/false, "9.0");
+      const after = await positionManager.position(pool, id);
+
+      expect(+after.capitals).to.be.greaterThan(+before.capitals);
+      expect(+after.yields).to.be.greaterThan(+before.yields);
+      expect(+after.depositedBackingTokens).to.be.closeTo(+before.depositedBackingTokens * 2, 0.000001);
+    });
+
+    it("verifies a position cannot be increased with a different position type", async () => {
+      const fixedId = await positionManager.mintFixed(user1, pool, amm, 1, /*isBackingToken*/false, "10.3");
+      const leveragedId = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+      (await expectRevert(positionManager.increase(user1, pool, fixedId, 2, 1, false, "9.0"))).to.equal(":InvalidLeverageMultiplier");
+      (await expectRevert(positionManager.increase(user1, pool, leveragedId, 0, 1, false, "10.3"))).to.equal(":InvalidLeverageMultiplier");
+      (await expectRevert(positionManager.increase(user1, pool, leveragedId, 0.5, 1, false, "9.0"))).to.equal(":InvalidLeverageMultiplier");
+    });
+
+    it("verifies it's not possible to increase other users' positions", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+      (await expectRevert(positionManager.increase(user2, pool, id, 2, 1, false, "9.0"))).to.equal(":UnauthorizedPositionUpdate");
+    });
+  });
+
+  describe("Decrease", () =>
+  {
+    it("verifies decreasing a position liquidates a fraction of it", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+      const before = await positionManager.position(pool, id);
+
+      const balanceBefore = +await pool.yieldBearing.balanceOf(user1);
+      const liquidated = +await positionManager.decrease(user1, pool, id, 0.25, BURN_PARAMS);
+      const balanceAfter = +await pool.yieldBearing.balanceOf(user1);
+      const after = await positionManager.position(pool, id);
+
+      expect(liquidated).to.be.greaterThan(0);
+      // liquidated amount is estimated a block earlier, the Yields are sold at a slightly different price
+      expect(balanceAfter - balanceBefore).to.be.closeTo(liquidated, 0.00005);
+      expect(+after.capitals).to.be.closeTo(+before.capitals * 0.75, 0.000001);
+      expect(+after.yields).to.be.closeTo(+before.yields * 0.75, 0.000001);
+      expect(+after.depositedBackingTokens).to.be.closeTo(+before.depositedBackingTokens * 0.75, 0.000001);
+      expect(await positionManager.ownerOf(id)).to.be.equal(user1.address);
+    });
+
+    it("verifies decreasing and burning a position empties the contract from Yields and Capitals", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+      await positionManager.decrease(user1, pool, id, 0.5, { ...BURN_PARAMS, recipient: user2 });
+      const after = await positionManager.position(pool, id);
+      expect((await pool.principalShare.balanceOf(positionManager)).toString()).to.be.equal(after.capitals.toString());
+      expect((await pool.yieldShare.balanceOf(positionManager)).toString()).to.be.equal(after.yields.toString());
+
+      await positionManager.burn(user1, pool, id, BURN_PARAMS);
+      expect(+await pool.principalShare.balanceOf(positionManager)).to.be.equal(0);
+      expect(+await pool.yieldShare.balanceOf(positionManager)).to.be.equal(0);
+    });
+
+    it("verifies decreasing by an invalid fraction reverts", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+      (await expectRevert(positionManager.decrease(user1, pool, id, 0, BURN_PARAMS))).to.equal(":InvalidFraction");
+      (await expectRevert(positionManager.decrease(user1, pool, id, 1, BURN_PARAMS))).to.equal(":InvalidFraction");
+    });
+
+    it("verifies it's not possible to decrease other users' positions", async () => {
+      const id = await positionManager.mintLeveraged(user1, pool, amm, 2, 1, /*isBackingToken*/false, "9.0");
+
+      (await expectRevert(positionManager.decrease(user2, pool, id, 0.5, BURN_PARAMS))).to.equal(":UnauthorizedPositionUpdate");
+    });
   });
 
   it("verifies passing address zero Tempus Controller in the constructor reverts", async () => {
@@ -2,7 +2,7 @@ import { expect } from "chai";
 import { addressOf, Signer } from "./utils/ContractBase";
 import { expectRevert } from "./utils/Utils";
 import { PoolType, TempusPool } from "./utils/TempusPool";
-import { TempusController } from "./utils/TempusController";
+import { MulticallError, TempusController } from "./utils/TempusController";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
 import { BigNumber } from "@ethersproject/bignumber";
@@ -73,7 +73,7 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
       expect(await controller.supportsInterface("0x3c3dbb51")).to.be.false;
   
       // should support ITempusController interface
-      expect(await controller.supportsInterface("0xa78f56f5")).to.be.true;
+      expect(await controller.supportsInterface("0xebb10f95")).to.be.true;
     });
   });
   
@@ -283,6 +283,7 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
       const userY:number = +await testPool.yields.balanceOf(user2);
       const userPRedeem:number = userP < 9999 ? userP : 9999;
       const userYRedeem:number = userY < 9999 ? userY : 9999;
+      await testPool.openWithdrawWindow();
       const reedemAction = controller.exitAmmGivenAmountsOutAndEarlyRedeem(
         testPool, 
         user2, 
@@ -556,6 +557,7 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
 
       await testPool.setInterestRate(1.1);
       await testPool.fastForwardToMaturity();
+      await testPool.openWithdrawWindow();
 
       if (testPool.type == PoolType.Lido)
       {
@@ -591,6 +593,182 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
     });
   });
 
+  describe("multicall", () =>
+  {
+    it("deposit BT, provide liquidity and fix in a single transaction", async () =>
+    {
+      await initAMM(user1, /*ybtDeposit*/2000, /*principals*/200, /*yields*/2000); // 10% rate
+      const balanceBefore = +await pool.asset.balanceOf(user2);
+
+      await controller.multicall(user2)
+        .depositBacking(pool, 10)
+        .depositAndProvideLiquidity(testPool, 10, /*isBackingToken*/true)
+        .depositAndFix(testPool, 5, /*isBackingToken*/true, /*minTYSRate*/"0.097")
+        .execute();
+      await expectValidState();
+
+      if (testPool.type === PoolType.Lido) {
+        expect(+await pool.asset.balanceOf(user2)).to.be.lessThan(balanceBefore - 25); // some ETH is consumed for gas
+      } else {
+        expect(+await pool.asset.balanceOf(user2)).to.be.equal(balanceBefore - 25);
+      }
+      expect(+await amm.balanceOf(user2)).to.be.greaterThan(0, "LP tokens should be received");
+      expect(+await pool.principalShare.balanceOf(user2)).to.be.greaterThan(+await pool.yieldShare.balanceOf(user2));
+      expect(+await pool.asset.balanceOf(controller.address)).to.be.equal(0, "No ETH should remain in controller");
+    });
+
+    it("reverts all calls with the reason of the failed call", async () =>
+    {
+      await initAMM(user1, /*ybtDeposit*/2000, /*principals*/200, /*yields*/2000); // 10% rate
+      const ybtBefore = +await pool.yieldBearing.balanceOf(user2);
+
+      const error = await controller.multicall(user2)
+        .depositYieldBearing(pool, 5)
+        .depositAndFix(testPool, 5, /*isBackingToken*/false, /*minTYSRate*/"0.11")
+        .execute()
+        .catch(e => e);
+
+      expect(error).to.be.instanceOf(MulticallError);
+      expect(error.index).to.equal(1);
+      expect(error.reason).to.equal(":SwapGivenTokensInSlippage");
+      expect(+await pool.yieldBearing.balanceOf(user2)).to.equal(ybtBefore);
+      expect(+await pool.principalShare.balanceOf(user2)).to.equal(0);
+    });
+
+    it("reverts if the ETH value of the calls does not match the sent ETH", async () =>
+    {
+      const invalidAction = controller.connect(user2).multicall([], { value: 1 });
+      (await expectRevert(invalidAction)).to.equal(":MulticallValueMismatch");
+    });
+
+    it("does not allow nested multicalls", async () =>
+    {
+      const error = await controller.multicall(user2).add("multicall", [[]]).execute().catch(e => e);
+
+      expect(error).to.be.instanceOf(MulticallError);
+      expect(error.index).to.equal(0);
+      expect(error.reason).to.equal(":NestedMulticall");
+    });
+  });
+
+  describe("rollover", () =>
+  {
+    const ROLLOVER_DURATION = 60*60;
+
+    it("reverts if the pool has not matured", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+
+      const invalidAction = controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100);
+      (await expectRevert(invalidAction)).to.equal(":PoolNotMatured");
+    });
+
+    it("reverts if the next pool is not registered", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+      await controller.register(owner, next.tempus.address, false);
+      await testPool.fastForwardToMaturity();
+
+      const invalidAction = controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100);
+      (await expectRevert(invalidAction)).to.equal(":UnauthorizedContract");
+    });
+
+    it("reverts if an AMM does not belong to its pool", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+
+      const invalidMaturedAMM = controller.rollover(user2, pool, next.amm, next.tempus, next.amm, 1, 100, 100);
+      (await expectRevert(invalidMaturedAMM)).to.equal(":AMMPoolMismatch");
+
+      const invalidNextAMM = controller.rollover(user2, pool, amm, next.tempus, amm, 0, 100, 100, /*fix*/true, /*minTYSRate*/"0.09");
+      (await expectRevert(invalidNextAMM)).to.equal(":AMMPoolMismatch");
+    });
+
+    it("redeems only the shares of the caller", async () =>
+    {
+      await controller.depositYieldBearing(user1, pool, 50);
+      await controller.depositYieldBearing(user2, pool, 100);
+      await pool.principalShare.transfer(user1, controller.address, 50);
+      await pool.yieldShare.transfer(user1, controller.address, 50);
+      await testPool.setInterestRate(1.1);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+
+      await controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100);
+      expect(+await next.tempus.principalShare.balanceOf(user2)).to.be.closeTo(110, 0.000001);
+      expect(+await next.tempus.yieldShare.balanceOf(user2)).to.be.closeTo(110, 0.000001);
+      expect(+await pool.principalShare.balanceOf(controller.address)).to.equal(50, "shares sent to the controller are not redeemed");
+      expect(+await pool.yieldShare.balanceOf(controller.address)).to.equal(50, "shares sent to the controller are not redeemed");
+    });
+
+    it("redeems matured shares and deposits them to the next pool", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      await testPool.setInterestRate(1.1);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+
+      await controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100);
+      expect(+await pool.principalShare.balanceOf(user2)).to.equal(0);
+      expect(+await pool.yieldShare.balanceOf(user2)).to.equal(0);
+      expect(+await next.tempus.principalShare.balanceOf(user2)).to.be.closeTo(110, 0.000001);
+      expect(+await next.tempus.yieldShare.balanceOf(user2)).to.be.closeTo(110, 0.000001);
+
+      // pegged YBT grows with the interest rate, unpegged YBT is worth more BT instead
+      const expectedYBT = testPool.yieldPeggedToAsset ? 110 : 100;
+      expect(+await next.tempus.contractBalance()).to.be.closeTo(expectedYBT, 0.000001);
+      expect(+await pool.yieldBearing.balanceOf(controller.address)).to.equal(0, "No YBT should remain in controller");
+    });
+
+    it("exits matured LP tokens together with the shares", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 200);
+      await amm.provideLiquidity(user2, 100, 100);
+      await testPool.setInterestRate(1.1);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+
+      const lpTokens = await amm.balanceOf(user2);
+      await controller.rollover(user2, pool, amm, next.tempus, next.amm, lpTokens, 100, 100);
+      expect(+await amm.balanceOf(user2)).to.equal(0);
+      expect(+await next.tempus.principalShare.balanceOf(user2)).to.be.closeTo(220, 0.000001);
+      expect(+await next.tempus.yieldShare.balanceOf(user2)).to.be.closeTo(220, 0.000001);
+      expect(+await pool.principalShare.balanceOf(controller.address)).to.equal(0, "No TPS should remain in controller");
+      expect(+await pool.yieldShare.balanceOf(controller.address)).to.equal(0, "No TYS should remain in controller");
+    });
+
+    it("fixes the yield of the next pool", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+      await controller.depositYieldBearing(user1, next.tempus, 20000);
+      await next.amm.provideLiquidity(user1, 2000, 20000); // 10% rate
+
+      await controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100, /*fix*/true, /*minTYSRate*/"0.09");
+      expect(+await next.tempus.principalShare.balanceOf(user2)).to.be.greaterThan(109);
+      expect(+await next.tempus.yieldShare.balanceOf(user2)).to.equal(0);
+      expect(+await next.tempus.principalShare.balanceOf(controller.address)).to.equal(0, "No TPS should remain in controller");
+    });
+
+    it("reverts the fix if the TYS rate is worse than minimum", async () =>
+    {
+      await controller.depositYieldBearing(user2, pool, 100);
+      await testPool.fastForwardToMaturity();
+      const next = await testPool.createNextPool(ROLLOVER_DURATION);
+      await controller.depositYieldBearing(user1, next.tempus, 20000);
+      await next.amm.provideLiquidity(user1, 2000, 20000); // 10% rate
+
+      const invalidAction = controller.rollover(user2, pool, amm, next.tempus, next.amm, 0, 100, 100, /*fix*/true, /*minTYSRate*/"0.11");
+      (await expectRevert(invalidAction)).to.equal(":SwapGivenTokensInSlippage");
+      expect(+await pool.principalShare.balanceOf(user2)).to.equal(100, "matured shares must not be redeemed");
+    });
+  });
+
   async function calculateCurrentYieldsRate(): Promise<string> {
     const pricePerYield = await testPool.yields.getPricePerFullShareStored();
     const pricePerPrincipal = await testPool.principals.getPricePerFullShareStored();
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { PoolType } from "./utils/TempusPool";
+import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
+import { MapleTestPool } from "./pool-utils/MapleTestPool";
+import { describeForEachPool } from "./pool-utils/MultiPoolTestSuite";
+
+describeForEachPool.type("TempusPool ClaimInterest", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
+  let maple:MapleTestPool;
+
+  beforeEach(async () =>
+  {
+    maple = pool as MapleTestPool;
+    await pool.createDefault();
+    let [owner, user, user2] = pool.signers;
+    await pool.asset.transfer(owner, user, 1000);
+    await pool.asset.transfer(owner, user2, 1000);
+    await pool.asset.approve(user, pool.tempus.controller.address, 1000);
+    await pool.asset.approve(user2, pool.tempus.controller.address, 1000);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+  });
+
+  it("Should hold claimed interest as BackingTokens", async () =>
+  {
+    let [owner] = pool.signers;
+    await maple.maple.setInterestRate(1.5, owner);
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.5);
+
+    expect(await pool.tempus.claimInterest(owner)).to.equal(50);
+    expect(+await pool.tempus.contractBalance()).to.equal(100, "claimed interest must not be deposited back");
+    expect(+await pool.asset.balanceOf(pool.tempus.address)).to.equal(50);
+    expect(+await maple.maple.withdrawableFundsOf(pool.tempus.address)).to.equal(0);
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.5, "claiming must not change the interest rate");
+  });
+
+  it("Should allow anyone to claim interest", async () =>
+  {
+    let [owner, , user2] = pool.signers;
+    await maple.maple.setInterestRate(1.5, owner);
+    expect(await pool.tempus.claimInterest(user2)).to.equal(50);
+    expect(+await pool.asset.balanceOf(user2)).to.equal(1000, "claimed interest must stay in the pool");
+  });
+
+  it("Should keep the withdraw intent when claiming interest", async () =>
+  {
+    let [owner] = pool.signers;
+    await pool.tempus.intendToWithdraw(owner);
+    const window = await pool.tempus.withdrawWindow();
+
+    await maple.maple.setInterestRate(1.5, owner);
+    await pool.tempus.claimInterest(owner);
+    expect(await pool.tempus.withdrawWindow()).to.deep.equal(window);
+  });
+
+  it("Should keep accruing interest on PoolFDTs after claiming", async () =>
+  {
+    let [owner] = pool.signers;
+    await maple.maple.setInterestRate(1.5, owner);
+    await pool.tempus.claimInterest(owner);
+
+    // 100 PoolFDTs accrue another 0.5 each, while the claimed 50 BackingTokens are held
+    await maple.maple.setInterestRate(2.0, owner);
+    expect(await pool.tempus.currentInterestRate()).to.equal(2.0);
+  });
+
+  it("Should reflect claimed interest in share prices", async () =>
+  {
+    let [owner] = pool.signers;
+    const yieldPriceBefore = await pool.tempus.pricePerYieldShare();
+    await maple.maple.setInterestRate(1.5, owner);
+    await pool.tempus.claimInterest(owner);
+
+    expect(+await pool.tempus.pricePerYieldShare()).to.be.greaterThan(+yieldPriceBefore);
+  });
+
+  it("Should redeem the whole claimed interest as YBT", async () =>
+  {
+    let [owner, user] = pool.signers;
+    await maple.maple.setInterestRate(1.5, owner);
+    await pool.tempus.claimInterest(owner);
+
+    (await pool.expectRedeemYBT(user, 100, 100)).to.equal('success');
+    expect(+await pool.ybt.balanceOf(user)).to.equal(150);
+    expect(+await pool.tempus.contractBalance()).to.equal(0);
+  });
+
+  it("Should signal the withdraw intent again after depositing claimed interest for YBT redemptions", async () =>
+  {
+    let [owner, user] = pool.signers;
+    await maple.setWithdrawRestrictions(/*lockup*/0, /*cooldown*/10*24*60*60, /*window*/2*24*60*60);
+    await pool.tempus.intendToWithdraw(owner);
+    await maple.maple.setInterestRate(1.5, owner);
+    await pool.tempus.claimInterest(owner);
+
+    (await pool.expectRedeemYBT(user, 50, 50)).to.equal('success');
+    expect(+await pool.ybt.balanceOf(user)).to.equal(75);
+    expect(await pool.tempus.withdrawWindow()).to.not.be.null;
+  });
+
+  it("Should not pay the interest of other depositors to the first redeemer", async () =>
+  {
+    let [owner, user, user2] = pool.signers;
+    (await pool.expectDepositBT(user2, 100)).to.equal('success');
+    await maple.maple.setInterestRate(1.5, owner);
+
+    (await pool.expectRedeemBT(user, 100, 100)).to.equal('success');
+    expect(+await pool.asset.balanceOf(user)).to.equal(1050);
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.5);
+
+    (await pool.expectRedeemBT(user2, 100, 100)).to.equal('success');
+    expect(+await pool.asset.balanceOf(user2)).to.equal(1050);
+  });
+
+  it("Should claim nothing when there is no accrued interest", async () =>
+  {
+    let [owner] = pool.signers;
+    expect(await pool.tempus.claimInterest(owner)).to.equal(0);
+    expect(+await pool.tempus.contractBalance()).to.equal(100);
+  });
+});
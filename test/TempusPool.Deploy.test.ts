@@ -2,7 +2,7 @@ import { utils } from "ethers";
 import { expect } from "chai";
 import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
-import { TempusPool } from "./utils/TempusPool";
+import { PoolType, TempusPool } from "./utils/TempusPool";
 import { expectRevert, blockTimestamp } from "./utils/Utils";
 
 describeForEachPool("TempusPool Deploy", (testPool:PoolTestFixture) =>
@@ -76,6 +76,7 @@ describeForEachPool("TempusPool Deploy", (testPool:PoolTestFixture) =>
 
   it("Should revert if initial rate is zero", async () =>
   {
+    if (testPool.type === PoolType.Maple) return; // Maple initial rate is always 1.0
     (await expectRevert(testPool.create({ initialRate:0, poolDuration:60, yieldEst:0.1 })))
       .to.equal(":ZeroInterestRate");
   });
@@ -92,6 +93,6 @@ describeForEachPool("TempusPool Deploy", (testPool:PoolTestFixture) =>
     expect(await pool.supportsInterface("0x3c3dbb51")).to.be.false;
 
     // should support ITempusPool interface
-    expect(await pool.supportsInterface("0xa79467db")).to.be.true;
+    expect(await pool.supportsInterface("0x3aa4b707")).to.be.true;
   });
 });
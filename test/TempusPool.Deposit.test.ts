@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { BalancesExpectation, PoolTestFixture, WalletExpectation, YBTDepositExpectation } from "./pool-utils/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+import { PoolType } from "./utils/TempusPool";
 import { expectRevert } from "./utils/Utils";
 
 describeForEachPool("TempusPool Deposit", (pool:PoolTestFixture) =>
@@ -84,6 +85,12 @@ describeForEachPool("TempusPool Deposit", (pool:PoolTestFixture) =>
     await pool.setupAccounts(owner, [[user, 500]]);
     await pool.setInterestRate(0.8);
 
+    if (pool.type === PoolType.Maple) {
+      // Maple PoolFDTs can't be transferred until their losses are recognized, so Backing Tokens are deposited
+      await pool.asset.approve(user, pool.tempus.controller.address, 100);
+      (await pool.expectDepositBT(user, 100)).to.equal(':NegativeYield');
+      return;
+    }
     (await pool.expectDepositYBT(user, 100)).to.equal(':NegativeYield');
   });
 
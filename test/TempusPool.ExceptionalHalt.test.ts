@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import { PoolType } from "./utils/TempusPool";
+import { Signer } from "./utils/ContractBase";
+import { Stats } from "./utils/Stats";
+import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
+import { MapleTestPool } from "./pool-utils/MapleTestPool";
+import { describeForEachPool } from "./pool-utils/MultiPoolTestSuite";
+
+describeForEachPool.type("TempusPool ExceptionalHalt", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
+  let maple:MapleTestPool;
+  let stats:Stats;
+
+  /**
+   * Redeems to BackingTokens and checks the redeemed amount against Stats.estimatedRedeem
+   * @return BackingTokens received by the user
+   */
+  async function redeemBT(user:Signer, principals:number, yields:number): Promise<number>
+  {
+    const estimate = +await stats.estimatedRedeem(pool, principals, yields, /*toBackingToken*/true);
+    const balanceBefore = +await pool.asset.balanceOf(user);
+    (await pool.expectRedeemBT(user, principals, yields)).to.equal('success');
+
+    const redeemed = +await pool.asset.balanceOf(user) - balanceBefore;
+    expect(redeemed).to.be.closeTo(estimate, 0.000001, "redeemed BackingTokens must match Stats.estimatedRedeem");
+    return redeemed;
+  }
+
+  // negative yield is only tracked during deposits and redemptions, and deposits are rejected
+  // during negative yield, so the halt is triggered by redemptions spread over more than 7 days
+  async function haltPool(user:Signer): Promise<void>
+  {
+    await pool.setTimeDaysAfterPoolStart(1);
+    expect(await redeemBT(user, 10, 10)).to.be.closeTo(8, 0.000001);
+
+    await pool.setTimeDaysAfterPoolStart(8.1);
+    expect(await redeemBT(user, 10, 10)).to.be.closeTo(8, 0.000001);
+  }
+
+  beforeEach(async () =>
+  {
+    maple = pool as MapleTestPool;
+    await pool.create({ initialRate:1.0, poolDuration:30*24*60*60, yieldEst:0.1 });
+    stats = await Stats.create();
+
+    let [owner, user] = pool.signers;
+    await pool.asset.transfer(owner, user, 1000);
+    await pool.asset.approve(user, pool.tempus.controller.address, 1000);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+  });
+
+  it("Should lower the interest rate by the written down PoolFDTs", async () =>
+  {
+    await maple.simulateDefault(0.2);
+    expect(await pool.tempus.currentInterestRate()).to.equal(0.8);
+    expect(+await maple.maple.recognizableLossesOf(pool.tempus.address)).to.equal(20);
+  });
+
+  it("Should reject deposits during negative yield", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+    (await pool.expectDepositBT(user, 100)).to.equal(':NegativeYield');
+  });
+
+  it("Should recognize the whole loss without affecting the interest rate", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+
+    expect(await redeemBT(user, 10, 10)).to.be.closeTo(8, 0.000001);
+    expect(+await maple.maple.recognizableLossesOf(pool.tempus.address)).to.equal(0);
+    expect(+await pool.tempus.contractBalance()).to.equal(72, "100 PoolFDTs - 8 redeemed - 20 recognized losses");
+    expect(await pool.tempus.currentInterestRate()).to.equal(0.8);
+
+    expect(await redeemBT(user, 90, 90)).to.be.closeTo(72, 0.000001);
+    expect(+await pool.tempus.contractBalance()).to.equal(0);
+  });
+
+  it("Should not halt before maximumNegativeYieldDuration has passed", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+
+    await pool.setTimeDaysAfterPoolStart(1);
+    await redeemBT(user, 10, 10);
+    await pool.setTimeDaysAfterPoolStart(7);
+    await redeemBT(user, 10, 10);
+
+    expect(await pool.tempus.matured()).to.be.false;
+    expect(await pool.tempus.exceptionalHaltTime()).to.be.null;
+  });
+
+  it("Should halt after negative yield lasts longer than maximumNegativeYieldDuration", async () =>
+  {
+    let [, user] = pool.signers;
+    expect(await pool.tempus.maximumNegativeYieldDuration()).to.equal(7*24*60*60);
+    await maple.simulateDefault(0.2);
+    await haltPool(user);
+
+    expect(await pool.tempus.matured()).to.be.true;
+    expect(await pool.tempus.exceptionalHaltTime()).to.not.be.null;
+    expect(await pool.tempus.maturityInterestRate()).to.equal(0.8);
+    (await pool.expectDepositBT(user, 100)).to.equal(':PoolAlreadyMatured');
+  });
+
+  it("Should allow unequal redemptions at the halted rate", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+    await haltPool(user);
+
+    expect(await redeemBT(user, 20, 0)).to.be.closeTo(16, 0.000001);
+    expect(await redeemBT(user, 60, 80)).to.be.closeTo(48, 0.000001, "Yields are worthless at negative yield");
+  });
+
+  it("Should redeem at the halted rate after yield recovers", async () =>
+  {
+    let [owner, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+    await haltPool(user);
+
+    await maple.maple.setInterestRate(2.0, owner);
+    expect(+await pool.tempus.currentInterestRate()).to.be.greaterThan(1.0);
+    expect(await pool.tempus.maturityInterestRate()).to.equal(0.8);
+
+    expect(await redeemBT(user, 20, 20)).to.be.closeTo(16, 0.000001);
+  });
+
+  it("Should redeem at the lower rate after another default", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.simulateDefault(0.2);
+    await haltPool(user);
+
+    // remaining 64 PoolFDTs lose another 6.4
+    await maple.simulateDefault(0.1);
+    expect(await pool.tempus.currentInterestRate()).to.equal(0.72);
+
+    expect(await redeemBT(user, 20, 20)).to.be.closeTo(14.4, 0.000001);
+    expect(await redeemBT(user, 60, 60)).to.be.closeTo(43.2, 0.000001);
+    expect(+await pool.tempus.contractBalance()).to.be.closeTo(0, 0.000001);
+  });
+});
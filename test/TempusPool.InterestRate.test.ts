@@ -1,5 +1,6 @@
-
 import { expect } from "chai";
+import { PoolType } from "./utils/TempusPool";
+import { expectRevert, increaseTime } from "./utils/Utils";
 import { PoolTestFixture } from "./pool-utils/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 
@@ -15,7 +16,11 @@ describeForEachPool("TempusPool InterestRate", (pool:PoolTestFixture) =>
     expect(numAssetTokens).to.equal(2);
     expect(numYieldTokens).to.equal(3);
   });
+});
 
+// Maple interest rate only reflects interest accrued by the TempusPool itself, see below
+describeForEachPool.except("TempusPool InterestRate", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
   it("Should give correct Interest Rate and token amounts with Rate=2.0", async () =>
   {
     await pool.create({ initialRate:2.0, poolDuration:60*60, yieldEst:0.1 });
@@ -37,3 +42,124 @@ describeForEachPool("TempusPool InterestRate", (pool:PoolTestFixture) =>
     }
   });
 });
+
+describeForEachPool.type("TempusPool InterestRate", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
+  beforeEach(async () =>
+  {
+    await pool.createDefault();
+    let [owner, user] = pool.signers;
+    await pool.asset.transfer(owner, user, 1000);
+    await pool.asset.approve(user, pool.tempus.controller.address, 1000);
+  });
+
+  it("Should start with Rate=1.0 before any deposits", async () =>
+  {
+    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.0);
+  });
+
+  it("Should give correct Interest Rate and token amounts with Rate=2.0", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await pool.setInterestRate(2.0);
+
+    let interestRate = await pool.tempus.currentInterestRate();
+    expect(interestRate).to.equal(2.0);
+    expect(await pool.tempus.numAssetsPerYieldToken(2, interestRate)).to.equal(2);
+    expect(await pool.tempus.numYieldTokensPerAsset(2, interestRate)).to.equal(2);
+  });
+
+  it("Should follow accrued interest in 1e18 precision", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await pool.setInterestRate(1.000001);
+
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.000001);
+    expect(+await pool.tempus.pricePerPrincipalShare()).to.be.greaterThan(0);
+  });
+
+  it("Should not report negative yield after more deposits", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await pool.setInterestRate(1.1);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+
+    expect(+await pool.tempus.currentInterestRate()).to.be.gte(1.0);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    expect(await pool.tempus.exceptionalHaltTime()).to.be.null;
+  });
+});
+
+describeForEachPool("TempusPool InterestRate Average", (pool:PoolTestFixture) =>
+{
+  it("Should be disabled on deployment", async () =>
+  {
+    await pool.createDefault();
+    const config = await pool.tempus.interestRateAverageConfig();
+    expect(config.newValueWeight).to.equal(0);
+    expect(config.updateInterval).to.equal(0);
+    expect(await pool.tempus.interestRateAverage()).to.equal(await pool.tempus.currentInterestRate());
+  });
+
+  it("Should be configurable only by the owner with a valid config", async () =>
+  {
+    await pool.createDefault();
+    const [owner, user] = pool.signers;
+    (await expectRevert(pool.tempus.setInterestRateAverageConfig(user, 0.1, 3600))).to.equal("Ownable: caller is not the owner");
+    (await expectRevert(pool.tempus.setInterestRateAverageConfig(owner, 1.1, 3600))).to.equal(":InvalidMovingAverageWeight");
+    (await expectRevert(pool.tempus.setInterestRateAverageConfig(owner, 0.1, 0))).to.equal(":ZeroMovingAverageInterval");
+
+    await pool.tempus.setInterestRateAverageConfig(owner, 0.1, 3600);
+    const config = await pool.tempus.interestRateAverageConfig();
+    expect(config.newValueWeight).to.equal(0.1);
+    expect(config.updateInterval).to.equal(3600);
+  });
+});
+
+describeForEachPool.except("TempusPool InterestRate Average", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
+  const ONE_HOUR = 60*60;
+
+  beforeEach(async () =>
+  {
+    await pool.create({ initialRate:1.0, poolDuration:ONE_HOUR*24*30, yieldEst:0.1 });
+    const [owner] = pool.signers;
+    await pool.tempus.setInterestRateAverageConfig(owner, 0.1, ONE_HOUR);
+    await pool.tempus.updateInterestRate(); // starts the average from the current interest rate
+  });
+
+  it("Should follow sudden Interest Rate changes only partially", async () =>
+  {
+    await pool.setInterestRate(1.5);
+    expect(await pool.tempus.interestRateAverage()).to.equal(1.0, "average is not updated before the interval passes");
+
+    await increaseTime(ONE_HOUR);
+    await pool.tempus.updateInterestRate();
+    expect(await pool.tempus.currentInterestRate()).to.equal(1.5);
+    const average = +await pool.tempus.interestRateAverage();
+    expect(average).to.be.greaterThan(1.0);
+    expect(average).to.be.lessThan(1.1);
+  });
+
+  it("Should estimate yield with the Interest Rate average", async () =>
+  {
+    await pool.setInterestRate(1.5);
+    await increaseTime(ONE_HOUR);
+    await pool.tempus.updateInterestRate();
+    const smoothedPrincipalPrice = +await pool.tempus.pricePerPrincipalShare();
+    const smoothedYieldPrice = +await pool.tempus.pricePerYieldShare();
+
+    const [owner] = pool.signers;
+    await pool.tempus.setInterestRateAverageConfig(owner, 0, 0);
+    const principalPrice = +await pool.tempus.pricePerPrincipalShare();
+    const yieldPrice = +await pool.tempus.pricePerYieldShare();
+
+    expect(smoothedYieldPrice).to.be.lessThan(yieldPrice, "smoothed estimate reacts slower to the rate jump");
+    const sum = principalPrice + yieldPrice;
+    expect(smoothedPrincipalPrice + smoothedYieldPrice).to.be.closeTo(sum, sum * 0.001, "Principal + Yield must equal the current yield");
+  });
+});
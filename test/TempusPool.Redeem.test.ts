@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { PoolTestFixture, YBTDepositExpectation, RedeemExpectation } from "./pool-utils/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+import { PoolType } from "./utils/TempusPool";
 import { expectRevert } from "./utils/Utils";
 
 describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
@@ -132,6 +133,7 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
   it.includeIntegration("Should work before maturity with equal shares, with negative yield", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple rejects PoolFDT transfers until the losses are recognized by a withdrawal
     await pool.createDefault();
     let [owner, user] = pool.signers;
     await pool.setupAccounts(owner, [[user, 200]]);
@@ -143,6 +145,7 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
   it.includeIntegration("Should work before maturity with equal shares, with long period of negative yield", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple rejects PoolFDT transfers until the losses are recognized by a withdrawal
     await pool.create({ initialRate:1.0, poolDuration:16*24*60*60, yieldEst:0.1 });
     let [owner, user] = pool.signers;
     await pool.setupAccounts(owner, [[user, 200]]);
@@ -180,6 +183,7 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
   it.includeIntegration("Should work before maturity with equal shares, with fluctuating yield", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple rejects PoolFDT transfers until the losses are recognized by a withdrawal
     await pool.create({ initialRate:1.0, poolDuration:16*24*60*60, yieldEst:0.1 });
     let [owner, user] = pool.signers;
     await pool.setupAccounts(owner, [[user, 200]]);
@@ -209,6 +213,7 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
   it.includeIntegration("Should work after maturity with negative yield", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple rejects PoolFDT transfers until the losses are recognized by a withdrawal
     await pool.createDefault();
     let [owner, user] = pool.signers;
     await pool.setupAccounts(owner, [[user, 200]]);
@@ -223,6 +228,7 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
   it.includeIntegration("Should work after maturity with negative yield between maturity and redemption", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple rejects PoolFDT transfers until the losses are recognized by a withdrawal
     await pool.createDefault();
     let [owner, user] = pool.signers;
     await pool.setupAccounts(owner, [[user, 200]]);
@@ -276,12 +282,14 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
     await pool.checkWallet(user, { pegged:{tps:100, tys:100, ybt:400}, unpegged:{tps:100, tys:100, ybt:100}}, "setting rate to 4.0");
     await redeem(user, { amount:{tps:100, tys:100}, pegged:{tps:0, tys:0, ybt:600}, unpegged:{tps:0, tys:0, ybt:150} }, "redeem 100+100 after maturity at rate 4.0");
 
+    if (pool.type === PoolType.Maple) return; // the interest left in the pool is held as Backing Tokens, not PoolFDTs
     const expectedRemainingPoolYBT = pool.yieldPeggedToAsset ? 200 : 50;
     expect(+await pool.ybt.balanceOf(pool.tempus.address)).to.equal(expectedRemainingPoolYBT);
   });
 
   it.includeIntegration("Should redeem correct amount of tokens with multiple users depositing", async () =>
   {
+    if (pool.type === PoolType.Maple) return; // Maple interest accrues per PoolFDT and doesn't compound for the users
     await pool.createDefault();
     let [owner, user, user2] = pool.signers;
     await pool.setupAccounts(owner, [[user, 500], [user2, 500]]);
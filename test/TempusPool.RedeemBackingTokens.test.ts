@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { PoolType } from "./utils/TempusPool";
 import { PoolTestFixture, BTDepositExpectation, RedeemExpectation, WalletExpectation } from "./pool-utils/PoolTestFixture";
+import { MapleTestPool } from "./pool-utils/MapleTestPool";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
-import { expectRevert } from "./utils/Utils";
+import { expectRevert, increaseTime } from "./utils/Utils";
 
 describeForEachPool.except("TempusPool Redeem", [PoolType.Lido], (pool:PoolTestFixture) =>
 {
@@ -70,3 +71,83 @@ describeForEachPool.type("TempusPool Redeem", [PoolType.Lido], (pool:PoolTestFix
     (await pool.expectRedeemBT(user, 100, 100)).to.equal(':LidoWithdrawNotSupported');
   });
 });
+
+describeForEachPool.type("TempusPool Redeem", [PoolType.Maple], (pool:PoolTestFixture) =>
+{
+  const DAY = 24*60*60;
+  let maple:MapleTestPool;
+
+  beforeEach(async () =>
+  {
+    maple = pool as MapleTestPool;
+    await pool.create({ initialRate:1.0, poolDuration:60*DAY, yieldEst:0.1 });
+    maple.autoOpenWithdrawWindow = false;
+
+    let [owner, user] = pool.signers;
+    await pool.asset.transfer(owner, user, 1000);
+    await pool.asset.approve(user, pool.tempus.controller.address, 100);
+  });
+
+  it("Should revert on redeem if withdrawal was not requested", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+
+    expect(await pool.tempus.withdrawWindow()).to.be.null;
+    (await pool.expectRedeemBT(user, 100, 100)).to.equal(':MapleWithdrawWindowClosed');
+  });
+
+  it("Should revert on redeem during the lockup period", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.setWithdrawRestrictions(/*lockup*/30*DAY, /*cooldown*/0, /*window*/2*DAY);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await maple.openWithdrawWindow();
+
+    (await pool.expectRedeemBT(user, 100, 100)).to.equal(':MapleWithdrawLocked');
+  });
+
+  it("Should revert on redeem during the cooldown period", async () =>
+  {
+    let [owner, user] = pool.signers;
+    await maple.setWithdrawRestrictions(/*lockup*/0, /*cooldown*/10*DAY, /*window*/2*DAY);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await pool.tempus.intendToWithdraw(owner);
+
+    (await pool.expectRedeemBT(user, 100, 100)).to.equal(':MapleWithdrawWindowClosed');
+  });
+
+  it("Should redeem during the withdraw window and revert after it closes", async () =>
+  {
+    let [, user] = pool.signers;
+    await maple.setWithdrawRestrictions(/*lockup*/0, /*cooldown*/10*DAY, /*window*/2*DAY);
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    await maple.openWithdrawWindow();
+
+    const window = await pool.tempus.withdrawWindow();
+    expect(window.end - window.start).to.equal(2*DAY);
+
+    (await pool.expectRedeemBT(user, 50, 50)).to.equal('success');
+    expect(+await pool.asset.balanceOf(user)).to.equal(950);
+
+    await increaseTime(3*DAY);
+    (await pool.expectRedeemBT(user, 50, 50)).to.equal(':MapleWithdrawWindowClosed');
+  });
+
+  it("Should revert on redeem if a deposit happened after requesting withdrawal", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 50)).to.equal('success');
+    await maple.openWithdrawWindow();
+    (await pool.expectDepositBT(user, 50)).to.equal('success');
+
+    (await pool.expectRedeemBT(user, 100, 100)).to.equal(':MapleWithdrawWindowClosed');
+  });
+
+  it("Should only allow owner to request withdrawal", async () =>
+  {
+    let [, user] = pool.signers;
+    (await pool.expectDepositBT(user, 100)).to.equal('success');
+    (await expectRevert(pool.tempus.intendToWithdraw(user))).to.equal("Ownable: caller is not the owner");
+  });
+});
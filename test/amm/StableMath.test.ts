@@ -12,6 +12,7 @@ import {
   calculateInvariant,
   calcOutGivenIn,
   calcInGivenOut,
+  calcSpotPrice,
   lpOutGivenTokensIn,
   lpInGivenTokensOut,
   tokenOutFromLPIn,
@@ -166,6 +167,27 @@ describeNonPool('StableMath', () =>
     await inGivenOut(amp(90), /*balances*/[fp(10), fp(100)], /*firstOut*/false, /*amountOut*/fp(50));
   });
 
+  it('spotPrice', async () =>
+  {
+    const spotPrice = (...args:any[]) => expectEquals(mockMath.spotPrice, calcSpotPrice, ...args);
+    await spotPrice(amp(10), /*balances*/[fp(10), fp(11)]);
+    await spotPrice(amp(10), /*balances*/[fp(11), fp(10)]);
+    await spotPrice(amp(1),  /*balances*/[fp(10), fp(100)]);
+    await spotPrice(amp(5),  /*balances*/[fp(10), fp(100)]);
+    await spotPrice(amp(90), /*balances*/[fp(10), fp(100)]);
+    await spotPrice(amp(5),  /*balances*/[fp(100), fp(10)]);
+
+    expect(num(await mockMath.spotPrice(amp(5), [fp(100), fp(100)]))).to.equal(1, "balanced pool");
+  });
+
+  it('spotPrice equals the marginal price of a small swap', async () =>
+  {
+    const amountIn = fp(0.000001);
+    const spot = num(await mockMath.spotPrice(amp(5), [fp(10), fp(100)]));
+    const marginal = num(await mockMath.outGivenIn(amp(5), [fp(10), fp(100)], /*firstIn*/true, amountIn)) / num(amountIn);
+    expect(spot).to.be.closeTo(marginal, marginal * 0.0001);
+  });
+
   it('lpOutGivenTokensIn', async () =>
   {
     const lpSupply = fp(10000);
@@ -125,6 +125,21 @@ export function calcInGivenOut(
   return toFp(finalBalanceIn.sub(balances[tokenIndexIn]));
 }
 
+/**
+ * @dev Spot price of token0 denominated in token1, as the ratio of invariant partial derivatives
+ * @returns 1e18 Decimal (FP)
+ */
+export function calcSpotPrice(amp: BigNumber, fpBalances: BigNumberish[]): Decimal {
+  const invariant = fromFp(calculateInvariant(amp, fpBalances, true));
+  const [x, y] = fpBalances.map(fromFp);
+
+  // The amplification parameter equals to: A n^(n-1), where A is the amplification coefficient
+  const ampTimesTotalProduct = deamp(amp).mul(2).mul(x).mul(y);
+  const invariantPower = invariant.pow(3).div(4);
+
+  return toFp(ampTimesTotalProduct.add(invariantPower.div(x)).div(ampTimesTotalProduct.add(invariantPower.div(y))));
+}
+
 export function lpOutGivenTokensIn(
   amplificationParameter: BigNumber,
   fpBalances: BigNumberish[],
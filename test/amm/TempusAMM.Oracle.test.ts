@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { Signer } from "../utils/ContractBase";
+import { Numberish } from "../utils/DecimalUtils";
+import { TempusPool } from "../utils/TempusPool";
+import { blockTimestamp, evmMine, evmMineInSingleBlock, expectRevert, setNextBlockTimestamp } from "../utils/Utils";
+import { describeForEachPool } from "../pool-utils/MultiPoolTestSuite";
+import { PoolTestFixture } from "../pool-utils/PoolTestFixture";
+import { TempusPoolAMM } from "../utils/TempusPoolAMM";
+
+describeForEachPool("TempusAMM.Oracle", (testFixture:PoolTestFixture) =>
+{
+  let owner:Signer;
+  const SWAP_FEE_PERC:number = 0.02;
+  const ONE_HOUR:number = 60*60;
+  const ONE_YEAR:number = ONE_HOUR*24*365;
+
+  let tempusPool:TempusPool;
+  let tempusAMM:TempusPoolAMM;
+
+  beforeEach(async () =>
+  {
+    // creating 300 year pool, so that Principal and Yield share prices don't change during the test
+    tempusPool = await testFixture.createWithAMM({
+      initialRate:1.0, poolDuration:ONE_YEAR*300, yieldEst:0.1,
+      ammSwapFee:SWAP_FEE_PERC, ammAmplifyStart:5, ammAmplifyEnd:5
+    });
+    tempusAMM = testFixture.amm;
+    [owner] = testFixture.signers;
+
+    const depositAmount = 1_000_000;
+    await testFixture.deposit(owner, depositAmount);
+    await tempusPool.controller.depositYieldBearing(owner, tempusPool, depositAmount, owner);
+  });
+
+  async function fastForward(seconds:number): Promise<void> {
+    await setNextBlockTimestamp(await blockTimestamp() + seconds);
+    await evmMine();
+  }
+
+  // marginal price of Principals in Yields, excluding the swap fee
+  async function spotPrincipalPrice(): Promise<number> {
+    const yieldsOut = +await tempusAMM.getExpectedReturnGivenIn(0.1, tempusAMM.principalShare);
+    return yieldsOut / 0.1 / (1 - SWAP_FEE_PERC);
+  }
+
+  async function swapPrincipalsIn(amount:Numberish): Promise<void> {
+    await tempusAMM.swapGivenInOrOut(owner, tempusAMM.principalShare.address, tempusAMM.yieldShare.address, amount);
+  }
+
+  async function swapYieldsIn(amount:Numberish): Promise<void> {
+    await tempusAMM.swapGivenInOrOut(owner, tempusAMM.yieldShare.address, tempusAMM.principalShare.address, amount);
+  }
+
+  it("Reverts before liquidity is provided and for invalid periods", async () =>
+  {
+    (await expectRevert(tempusAMM.consultPY(ONE_HOUR))).to.equal(":NotInitialisedYet");
+
+    await tempusAMM.provideLiquidity(owner, 10000, 100000);
+    (await expectRevert(tempusAMM.consultPY(0))).to.equal(":ZeroOraclePeriod");
+    (await expectRevert(tempusAMM.consultPY(ONE_HOUR))).to.equal(":OracleObservationTooOld");
+
+    await fastForward(ONE_HOUR);
+    expect((await tempusAMM.consultPY(ONE_HOUR)).principalPrice).to.be.greaterThan(0);
+  });
+
+  it("Average prices match the spot price without swaps", async () =>
+  {
+    await tempusAMM.provideLiquidity(owner, 10000, 100000);
+    await fastForward(ONE_HOUR);
+
+    const spot = await spotPrincipalPrice();
+    const twap = await tempusAMM.consultPY(ONE_HOUR);
+    expect(twap.principalPrice).to.be.closeTo(spot, spot * 0.001);
+    expect(twap.principalPrice * twap.yieldPrice).to.be.closeTo(1, 0.000001);
+  });
+
+  it("Average prices are weighted by the time each price was in effect", async () =>
+  {
+    await tempusAMM.provideLiquidity(owner, 10000, 100000);
+    const joinTime = await blockTimestamp();
+    await fastForward(ONE_HOUR);
+    const priceBefore = await spotPrincipalPrice();
+
+    await swapPrincipalsIn(1000);
+    const swapTime = await blockTimestamp();
+    const priceAfter = await spotPrincipalPrice();
+    expect(priceAfter).to.be.lessThan(priceBefore * 0.99);
+
+    await setNextBlockTimestamp(swapTime + ONE_HOUR);
+    await evmMine();
+
+    const period = swapTime + ONE_HOUR - joinTime;
+    const expected = (priceBefore * (swapTime - joinTime) + priceAfter * ONE_HOUR) / period;
+    expect((await tempusAMM.consultPY(period)).principalPrice).to.be.closeTo(expected, expected * 0.005);
+    expect((await tempusAMM.consultPY(ONE_HOUR / 2)).principalPrice).to.be.closeTo(priceAfter, priceAfter * 0.005);
+  });
+
+  it("Price changes have no weight until the block after the change", async () =>
+  {
+    await tempusAMM.provideLiquidity(owner, 10000, 100000);
+    await fastForward(ONE_HOUR);
+    const twapBefore = (await tempusAMM.consultPY(ONE_HOUR / 2)).principalPrice;
+
+    await swapPrincipalsIn(5000);
+    expect(await spotPrincipalPrice()).to.be.lessThan(twapBefore * 0.9, "spot price is manipulated");
+    expect((await tempusAMM.consultPY(ONE_HOUR / 2)).principalPrice).to.be.closeTo(twapBefore, twapBefore * 0.005);
+  });
+
+  it("Manipulating and restoring the price within a single block doesn't move average prices", async () =>
+  {
+    await tempusAMM.provideLiquidity(owner, 10000, 100000);
+    await fastForward(ONE_HOUR);
+    const twapBefore = await tempusAMM.consultPY(ONE_HOUR);
+    const yieldsOut = await tempusAMM.getExpectedReturnGivenIn(5000, tempusAMM.principalShare);
+
+    await evmMineInSingleBlock(async () =>
+    {
+      await swapPrincipalsIn(5000);
+      await swapYieldsIn(yieldsOut);
+    });
+    await fastForward(ONE_HOUR);
+
+    const twapAfter = await tempusAMM.consultPY(2 * ONE_HOUR);
+    expect(twapAfter.principalPrice).to.be.closeTo(twapBefore.principalPrice, twapBefore.principalPrice * 0.03);
+    expect(twapAfter.yieldPrice).to.be.closeTo(twapBefore.yieldPrice, twapBefore.yieldPrice * 0.03);
+  });
+});
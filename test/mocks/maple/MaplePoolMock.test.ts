@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { MaplePool } from "../../utils/MaplePool";
+import { Signer } from "../../utils/ContractBase";
+import { PoolType } from "../../utils/TempusPool";
+import { PoolTestFixture } from "../../pool-utils/PoolTestFixture";
+import { describeForEachPool } from "../../pool-utils/MultiPoolTestSuite";
+import { expectRevert, increaseTime } from "../../utils/Utils";
+import { parseDecimal } from "../../utils/DecimalUtils";
+
+const DAY = 24*60*60;
+
+describeForEachPool.type("Maple Mock", [PoolType.Maple], async (testPool:PoolTestFixture) =>
+{
+  let owner:Signer, user:Signer;
+  let pool:MaplePool;
+
+  beforeEach(async () =>
+  {
+    await testPool.createDefault();
+    pool = (testPool as any).maple;
+
+    [owner, user] = testPool.signers;
+    await pool.asset.transfer(owner, user, 10); // give user 10 asset coins
+  });
+
+  describe("Deposit", async () =>
+  {
+    it("Should mint PoolFDTs 1:1 at initial deposit", async () =>
+    {
+      expect(await pool.interestRate()).to.equal(1.0);
+      await pool.deposit(user, 4);
+
+      expect(+await pool.asset.balanceOf(user)).to.equal(6);
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(4);
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(0);
+    });
+
+    it("Should mint 18 decimal PoolFDTs regardless of Liquidity Asset decimals", async () =>
+    {
+      expect(await pool.contract.decimals()).to.equal(18);
+      await pool.deposit(user, 4);
+      expect(await pool.contract.balanceOf(user.address)).to.equal(parseDecimal(4, 18));
+    });
+
+    it("Should mint PoolFDTs 1:1 even if interest has accrued", async () =>
+    {
+      await pool.setInterestRate(2.0, owner);
+      await pool.deposit(user, 4);
+      expect(+await pool.asset.balanceOf(user)).to.equal(6);
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(4);
+    });
+  });
+
+  describe("Interest", async () =>
+  {
+    it("Should accrue interest as withdrawable funds", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.setInterestRate(1.5, owner);
+
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(4);
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(2);
+    });
+
+    it("Should not accrue interest distributed before deposit", async () =>
+    {
+      await pool.setInterestRate(1.5, owner);
+      await pool.deposit(user, 4);
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(0);
+
+      await pool.setInterestRate(2.0, owner);
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(2);
+    });
+
+    it("Should keep accrued interest after transferring PoolFDTs", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.setInterestRate(1.5, owner);
+      await pool.yieldToken.transfer(user, owner, 4);
+
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(2);
+      expect(+await pool.withdrawableFundsOf(owner)).to.equal(0);
+    });
+
+    it("Should withdraw accrued interest", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.setInterestRate(1.5, owner);
+      await pool.withdrawFunds(user);
+
+      expect(+await pool.asset.balanceOf(user)).to.equal(8);
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(0);
+      expect(+await pool.accumulativeFundsOf(user)).to.equal(2);
+    });
+  });
+
+  describe("Withdraw", async () =>
+  {
+    it("Should burn PoolFDTs 1:1 for Liquidity Asset", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.intendToWithdraw(user);
+      await pool.withdraw(user, 3);
+
+      expect(+await pool.asset.balanceOf(user)).to.equal(9);
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(1);
+    });
+
+    it("Should withdraw all accrued interest as well", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.setInterestRate(1.5, owner);
+      await pool.intendToWithdraw(user);
+      await pool.withdraw(user, 1);
+
+      expect(+await pool.asset.balanceOf(user)).to.equal(9, "withdrawing 1 must pay out the whole interest of 2");
+      expect(+await pool.withdrawableFundsOf(user)).to.equal(0);
+    });
+
+    it("Should not allow withdrawing without withdraw intent", async () =>
+    {
+      await pool.deposit(user, 4);
+      (await expectRevert(pool.withdraw(user, 3))).to.equal("P:NOT_WITHDRAWING");
+    });
+
+    it("Should cancel withdraw intent on deposit", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.intendToWithdraw(user);
+      await pool.deposit(user, 1);
+      (await expectRevert(pool.withdraw(user, 3))).to.equal("P:NOT_WITHDRAWING");
+    });
+
+    it("Should only allow withdrawing during the withdraw window", async () =>
+    {
+      await pool.setWithdrawCooldownParams(/*cooldownPeriod*/10*DAY, /*withdrawWindow*/2*DAY);
+      await pool.deposit(user, 4);
+      await pool.intendToWithdraw(user);
+      (await expectRevert(pool.withdraw(user, 3))).to.equal("P:COOLDOWN_NOT_FINISHED");
+
+      await increaseTime(11*DAY);
+      await pool.withdraw(user, 1);
+
+      await increaseTime(2*DAY);
+      (await expectRevert(pool.withdraw(user, 1))).to.equal("P:WITHDRAW_WINDOW_FINISHED");
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(3);
+    });
+
+    it("Should not allow withdrawing during the lockup period", async () =>
+    {
+      await pool.setLockupPeriod(30*DAY);
+      await pool.deposit(user, 4);
+      await pool.intendToWithdraw(user);
+      (await expectRevert(pool.withdraw(user, 3))).to.equal("P:FUNDS_LOCKED");
+    });
+  });
+
+  describe("Losses", async () =>
+  {
+    it("Should write down PoolFDTs held during the default", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.writeDown(0.25);
+
+      expect(+await pool.yieldToken.balanceOf(user)).to.equal(4);
+      expect(+await pool.recognizableLossesOf(user)).to.equal(1);
+    });
+
+    it("Should not write down PoolFDTs deposited after the default", async () =>
+    {
+      await pool.writeDown(0.25);
+      await pool.deposit(user, 4);
+      expect(+await pool.recognizableLossesOf(user)).to.equal(0);
+    });
+
+    it("Should deduct all losses from the next withdrawal", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.writeDown(0.25);
+      await pool.intendToWithdraw(user);
+
+      await pool.withdraw(user, 2);
+      expect(+await pool.asset.balanceOf(user)).to.equal(7, "withdrawing 2 must recognize the whole loss of 1");
+      expect(+await pool.recognizableLossesOf(user)).to.equal(0);
+
+      await pool.withdraw(user, 2);
+      expect(+await pool.asset.balanceOf(user)).to.equal(9);
+    });
+
+    it("Should not allow transferring PoolFDTs with unrecognized losses", async () =>
+    {
+      await pool.deposit(user, 4);
+      await pool.writeDown(0.25);
+      (await expectRevert(pool.yieldToken.transfer(user, owner, 1))).to.equal("P:RECOG_LOSSES");
+    });
+  });
+});
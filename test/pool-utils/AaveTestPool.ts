@@ -22,9 +22,12 @@ export class AaveTestPool extends PoolTestFixture {
   async deposit(user:Signer, amount:number): Promise<void> {
     await this.aave.deposit(user, amount);
   }
+  async createMock(initialRate:number): Promise<Aave> {
+    return await Aave.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
   async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
     return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
-      return await Aave.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
+      return await this.createMock(this.initialRate);
     }, (pool:ContractBase) => {
       this.aave = <Aave>pool;
       this.asset = this.aave.asset;
@@ -24,9 +24,12 @@ export class CompoundTestPool extends PoolTestFixture {
     await this.compound.enterMarkets(user);
     await this.compound.mint(user, amount);
   }
+  async createMock(initialRate:number): Promise<Comptroller> {
+    return await Comptroller.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
   async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
     return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
-      return await Comptroller.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
+      return await this.createMock(this.initialRate);
     }, (pool:ContractBase) => {
       this.compound = <Comptroller>pool;
       this.asset = this.compound.asset;
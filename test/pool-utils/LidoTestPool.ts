@@ -40,13 +40,15 @@ export class LidoTestPool extends PoolTestFixture {
   async deposit(user:Signer, amount:number): Promise<void> {
     await this.lido.submit(user, amount);
   }
+  async createMock(initialRate:number): Promise<LidoContract> {
+    if (this.integration) {
+      return await LidoFork.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+    }
+    return await LidoMock.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
   async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
     return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
-      if (this.integration) {
-        return await LidoFork.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
-      } else {
-        return await LidoMock.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
-      }
+      return await this.createMock(this.initialRate);
     }, (pool:ContractBase) => {
       this.lido = <LidoContract>pool;
       this.asset = this.lido.asset;
@@ -0,0 +1,121 @@
+import { Transaction } from "ethers";
+import { PoolTestFixture, TempusAMMParams, UserState } from "./PoolTestFixture";
+import { ContractBase, Signer, SignerOrAddress } from "../utils/ContractBase";
+import { TempusPool, PoolType } from "../utils/TempusPool";
+import { TokenInfo } from "./TokenInfo";
+import { MaplePool } from "../utils/MaplePool";
+import { Numberish } from "../utils/DecimalUtils";
+import { decimal } from "../utils/Decimal";
+import { increaseTime } from "../utils/Utils";
+
+export class MapleTestPool extends PoolTestFixture {
+  maple:MaplePool;
+  static readonly SEED_POOL_FDTS = 1000;
+  ASSET_TOKEN:TokenInfo;
+  YIELD_TOKEN:TokenInfo;
+
+  // if true, Maple withdraw window is opened automatically before every redeemToBT,
+  // set it to false to test redemptions in blocked withdraw windows
+  autoOpenWithdrawWindow:boolean = true;
+
+  constructor(ASSET_TOKEN:TokenInfo, YIELD_TOKEN:TokenInfo, integration:boolean) {
+    super(PoolType.Maple, /*acceptsEther*/false, /*yieldPeggedToAsset:*/true, integration);
+    this.ASSET_TOKEN = ASSET_TOKEN;
+    this.YIELD_TOKEN = YIELD_TOKEN;
+  }
+  /**
+   * Maple interest accrues equally to every PoolFDT, so the interest per PoolFDT is chosen
+   * to move the TempusPool interest rate to `rate`, the value of other holders moves along with it
+   */
+  async setInterestRate(rate:number): Promise<void> {
+    const owner = this.signers[0];
+    let poolFDTs = await this.ybt.balanceOf(this.tempus.address);
+    if (poolFDTs.equals(decimal(0))) {
+      // TempusPool interest rate only follows the interest of its own PoolFDTs, so it is seeded with some
+      await this.maple.deposit(owner, MapleTestPool.SEED_POOL_FDTS);
+      await this.ybt.transfer(owner, this.tempus.address, MapleTestPool.SEED_POOL_FDTS);
+      await this.tempus.updateInterestRate();
+      poolFDTs = await this.ybt.balanceOf(this.tempus.address);
+    }
+
+    const poolValue = decimal(poolFDTs)
+      .add(await this.asset.balanceOf(this.tempus.address))
+      .add(await this.maple.withdrawableFundsOf(this.tempus.address))
+      .sub(await this.maple.recognizableLossesOf(this.tempus.address));
+    const currentRate = decimal(await this.tempus.currentInterestRate());
+    const change = poolValue.mul(decimal(rate).div(currentRate).sub(1)).div(poolFDTs);
+    if (change.gt(0)) {
+      await this.maple.setInterestRate(decimal(await this.maple.interestRate()).add(change), owner);
+    } else if (change.lt(0)) {
+      await this.maple.writeDown(change.abs());
+    }
+  }
+
+  /**
+   * PoolFDT balances don't grow with the interest rate, instead interest and losses accrue to each holder,
+   * so the value of the user's PoolFDTs is used as their YBT balance
+   */
+  async userState(user:Signer): Promise<UserState> {
+    const state = await super.userState(user);
+    const interest = await this.maple.withdrawableFundsOf(user);
+    const losses = await this.maple.recognizableLossesOf(user);
+    state.yieldBearing = Number(state.yieldBearing) + interest.toNumber() - losses.toNumber();
+    return state;
+  }
+  async forceFailNextDepositOrRedeem(): Promise<void> {
+    await this.maple.contract.setFailNextDepositOrRedeem(true);
+  }
+  async deposit(user:Signer, amount:number): Promise<void> {
+    await this.maple.deposit(user, amount);
+  }
+  async redeemToBT(user:Signer, principalAmount:Numberish, yieldAmount:Numberish, recipient:SignerOrAddress = user): Promise<Transaction> {
+    if (this.autoOpenWithdrawWindow) {
+      await this.openWithdrawWindow();
+    }
+    return super.redeemToBT(user, principalAmount, yieldAmount, recipient);
+  }
+
+  /**
+   * Requests withdrawal from Maple on behalf of the TempusPool and fast forwards through the cooldown period
+   */
+  async openWithdrawWindow(): Promise<void> {
+    if (!(await this.tempus.contractBalance()).gt(0)) {
+      return; // Maple rejects withdraw intents of accounts without any PoolFDTs
+    }
+    await this.tempus.intendToWithdraw(this.signers[0]);
+    const cooldownPeriod = await this.maple.lpCooldownPeriod();
+    if (cooldownPeriod > 0) {
+      await increaseTime(cooldownPeriod);
+    }
+  }
+
+  /**
+   * Simulates a Maple loan default, which writes down the PoolFDTs held by the TempusPool
+   * @param lossPercent Loss of each PoolFDT, eg. 0.2 for a 20% loss, which lowers the interest rate accordingly
+   */
+  async simulateDefault(lossPercent:number): Promise<void> {
+    await this.maple.writeDown(lossPercent);
+  }
+
+  /**
+   * Sets Maple's lockup period and withdraw cooldown parameters, all in seconds
+   */
+  async setWithdrawRestrictions(lockupPeriod:number, cooldownPeriod:number, withdrawWindow:number): Promise<void> {
+    await this.maple.setLockupPeriod(lockupPeriod);
+    await this.maple.setWithdrawCooldownParams(cooldownPeriod, withdrawWindow);
+  }
+
+  async createMock(initialRate:number): Promise<MaplePool> {
+    return await MaplePool.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
+  async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
+    this.autoOpenWithdrawWindow = true;
+    return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
+      return await this.createMock(this.initialRate);
+    }, (pool:ContractBase) => {
+      this.maple = <MaplePool>pool;
+      this.asset = this.maple.asset;
+      this.ybt = this.maple.yieldToken;
+    });
+  }
+}
@@ -1,10 +1,6 @@
 import { PoolTestFixture } from "./PoolTestFixture";
-import { AaveTestPool } from "./AaveTestPool";
-import { LidoTestPool } from "./LidoTestPool";
-import { RariTestPool } from "./RariTestPool";
-import { YearnTestPool } from "./YearnTestPool";
 import { TokenInfo } from "./TokenInfo";
-import { CompoundTestPool } from "./CompoundTestPool";
+import { createFixture } from "./ProtocolFixtures";
 import { PoolType } from "../utils/TempusPool";
 import { Suite, TestFunction, Func, Test } from "mocha";
 import { 
@@ -73,14 +69,7 @@ function _describeForEachPoolType(title:string, poolTypes:PoolType[], only:boole
 
       const describeTestBody = () =>
       {
-        let pool:PoolTestFixture;
-        switch (type) {
-          case PoolType.Aave:     pool = new AaveTestPool(asset, yieldToken, integration); break;
-          case PoolType.Lido:     pool = new LidoTestPool(asset, yieldToken, integration); break;
-          case PoolType.Compound: pool = new CompoundTestPool(asset, yieldToken, integration); break;
-          case PoolType.Yearn:    pool = new YearnTestPool(asset, yieldToken, integration); break;
-          case PoolType.Rari:     pool = new RariTestPool(asset, yieldToken, integration); break;
-        }
+        const pool:PoolTestFixture = createFixture(type, asset, yieldToken, integration);
         fn(pool);
       };
 
@@ -112,6 +112,14 @@ export interface TempusAMMParams {
   ammAmplifyEnd:number; // Amplification end value for TempusAMM
 }
 
+/**
+ * Mock of the underlying protocol, or its mainnet fork contract, with the tokens a TempusPool is deployed with
+ */
+export interface UnderlyingProtocol extends ContractBase {
+  asset:IERC20; // Backing Token
+  yieldToken:ERC20; // Yield Bearing Token
+}
+
 // When we create TestPool fixtures with different parameters,
 // each parameter set is kept separately here
 const POOL_FIXTURES: { [signature: string]: FixtureState } = {};
@@ -171,6 +179,12 @@ export abstract class PoolTestFixture {
    */
   abstract createWithAMM(params:TempusAMMParams): Promise<TempusPool>;
 
+  /**
+   * Deploys the underlying protocol mock, or attaches to its mainnet fork in integration tests
+   * @param initialRate Initial interest rate of the underlying protocol
+   */
+  abstract createMock(initialRate:number): Promise<UnderlyingProtocol>;
+
   /**
    * Simplified overload for createPoolWithAMM, giving default parameters for AMM
    */
@@ -185,6 +199,24 @@ export abstract class PoolTestFixture {
     return this.create({ initialRate:1.0, poolDuration:60*60, yieldEst:0.1 });
   }
 
+  /**
+   * Deploys another TempusPool with the same YBT and underlying pool, and a TempusAMM for it.
+   * Must be called after `create`, the new pool is registered with the same controller.
+   * @param poolDuration Lifetime of the next pool in seconds, starting from the current block
+   */
+  async createNextPool(poolDuration:number): Promise<{ tempus:TempusPool, amm:TempusPoolAMM }> {
+    const owner = this.signers[0];
+    const maturityTime = await blockTimestamp() + poolDuration;
+    const names = generateTempusSharesNames(await this.ybt.name(), await this.ybt.symbol(), maturityTime);
+    const tempus = await TempusPool.deploy(
+      this.type, owner, this.controller, this.asset, this.ybt, maturityTime, this.yieldEst, names, this.pool.address
+    );
+    const amm = await TempusPoolAMM.create(owner, this.controller, tempus.principalShare, tempus.yieldShare,
+      /*ammAmplifyStart*/5, /*ammAmplifyEnd*/5, maturityTime, /*ammSwapFee*/0.02
+    );
+    return { tempus, amm };
+  }
+
   /**
    * @param rate Sets the Interest Rate for the underlying mock pool
    */
@@ -200,6 +232,13 @@ export abstract class PoolTestFixture {
    */
   abstract deposit(user:Signer, amount:number): Promise<void>;
 
+  /**
+   * Allows the TempusPool to withdraw from the UNDERLYING pool,
+   * only needed by protocols which restrict withdrawals, eg. Maple
+   */
+  async openWithdrawWindow(): Promise<void> {
+  }
+
   /**
    * Gets the owner and users for testing
    */
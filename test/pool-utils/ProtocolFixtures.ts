@@ -0,0 +1,17 @@
+import { PoolTestFixture } from "./PoolTestFixture";
+import { TokenInfo } from "./TokenInfo";
+import { PoolType } from "./ProtocolRegistry";
+
+/**
+ * Creates the PoolTestFixture of a registered protocol for a token pair.
+ * Fixtures are looked up by name, the same way TempusPool.deploy finds <PoolType>TempusPool contracts,
+ * so a new protocol only needs its `ProtocolRegistry` entry and its <PoolType>TestPool fixture in `<PoolType>TestPool.ts`
+ */
+export function createFixture(type:PoolType, asset:TokenInfo, yieldToken:TokenInfo, integration:boolean): PoolTestFixture {
+  const fixtureName = type + "TestPool";
+  const fixtureModule = require("./" + fixtureName);
+  if (fixtureModule[fixtureName] === undefined) {
+    throw new Error(`${fixtureName}.ts does not export the ${fixtureName} fixture of PoolType ${type}`);
+  }
+  return new fixtureModule[fixtureName](asset, yieldToken, integration);
+}
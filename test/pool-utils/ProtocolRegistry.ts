@@ -0,0 +1,197 @@
+import { BigNumber } from "ethers";
+import { TokenInfo } from "./TokenInfo";
+import { parseDecimal } from "../utils/DecimalUtils";
+
+/**
+ * Protocol integrations, `None` is used for tests which don't need any pool
+ */
+export enum PoolType {
+  None = "None",
+  Aave = "Aave",
+  Lido = "Lido",
+  Compound = "Compound",
+  Yearn = "Yearn",
+  Rari = "Rari",
+  Maple = "Maple"
+}
+
+const TOTAL_SUPPLY = 10000000000;
+
+/**
+ * Common constructor arguments of all <Protocol>TempusPool contracts
+ */
+export interface TempusPoolDeployArgs {
+  yieldToken:string;
+  asset:string;
+  controller:string;
+  maturityTime:number;
+  exchangeRatePrec:number;
+  estimatedYield:BigNumber; // in exchange rate precision
+  principalsData:{ name:string, symbol:string };
+  yieldsData:{ name:string, symbol:string };
+  maxFeeSetup:{ depositPercent:BigNumber, earlyRedeemPercent:BigNumber, matureRedeemPercent:BigNumber };
+  underlyingProtocol:string; // underlying protocol contract, if it's different from the YBT
+}
+
+/**
+ * Everything needed to test and deploy a single protocol integration.
+ * This module only holds data, so that the test runner can read it without loading hardhat.
+ * To add a new protocol, add its PoolType and register it in `PROTOCOLS` below,
+ * its <PoolType>TempusPool contract is tested by the <PoolType>TestPool fixture in `<PoolType>TestPool.ts`.
+ */
+export interface ProtocolInfo {
+  type:PoolType;
+
+  // protocol name shown in the frontend
+  displayName:string;
+
+  // pairs of [ASSET_TOKEN, YIELD_TOKEN] infos for standard unit tests which use mock protocols
+  mockTokens:TokenInfo[][];
+
+  // pairs of [ASSET_TOKEN, YIELD_TOKEN] infos for mainnet fork integration tests
+  integrationTokens?:TokenInfo[][];
+
+  // interest rate precision of <Protocol>TempusPool
+  exchangeRatePrecision:(assetDecimals:number) => number;
+
+  // full constructor arguments of <Protocol>TempusPool
+  deployArgs:(args:TempusPoolDeployArgs) => any[];
+}
+
+function defaultDeployArgs(a:TempusPoolDeployArgs): any[] {
+  return [a.yieldToken, a.controller, a.maturityTime, a.estimatedYield, a.principalsData, a.yieldsData, a.maxFeeSetup];
+}
+
+const PROTOCOLS:ProtocolInfo[] = [
+  {
+    type: PoolType.Aave,
+    displayName: "Aave",
+    mockTokens: [
+      [
+        { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Aave interest bearing DAI", symbol:"aDAI" }
+      ],
+      [
+        { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
+        { decimals:6, name:"Aave interest bearing USDC", symbol:"aUSDC" } // similar to USDT
+      ]
+    ],
+    exchangeRatePrecision: () => 18, // AaveTempusPool converts 1e27 LiquidityIndex to 1e18 interestRate
+    deployArgs: defaultDeployArgs
+  },
+  {
+    type: PoolType.Lido,
+    displayName: "Lido",
+    mockTokens: [
+      [
+        { decimals:18, name:"ETH Mock", symbol:"ETH", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Liquid staked Ether 2.0", symbol:"stETH" }
+      ]
+    ],
+    integrationTokens: [
+      [
+        { decimals:18, name:"ETH Mock", symbol:"ETH", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Liquid staked Ether 2.0", symbol:"stETH", deploymentName:"Lido" }
+      ]
+    ],
+    exchangeRatePrecision: () => 18, // Lido is always 1e18 thanks to ETH
+    deployArgs: (a) => [...defaultDeployArgs(a), "0x0000000000000000000000000000000000000000" /* hardcoded referrer */]
+  },
+  {
+    type: PoolType.Compound,
+    displayName: "Compound",
+    mockTokens: [
+      [
+        { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
+        { decimals:8,  name:"Compound Dai", symbol:"cDAI" }
+      ],
+      [
+        { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
+        { decimals:8, name:"Compound USD Coin", symbol:"cUSDC" }
+      ]
+    ],
+    // exchange rate precision = 18 - 8 + Underlying Token Decimals
+    exchangeRatePrecision: (assetDecimals) => 10 + assetDecimals,
+    deployArgs: (a) => {
+      const args = defaultDeployArgs(a);
+      args.splice(3, 0, /*exchangeRateOne*/parseDecimal(1.0, a.exchangeRatePrec));
+      return args;
+    }
+  },
+  {
+    type: PoolType.Yearn,
+    displayName: "Yearn",
+    mockTokens: [
+      [
+        { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
+        { decimals:18,  name:"Dai yVault", symbol:"yvDAI" }
+      ],
+      [
+        { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
+        { decimals:6, name:"USDC yVault", symbol:"yvUSDC" }
+      ]
+    ],
+    exchangeRatePrecision: (assetDecimals) => assetDecimals, // exchange rate precision = Underlying Token Decimals
+    deployArgs: defaultDeployArgs
+  },
+  {
+    type: PoolType.Rari,
+    displayName: "Rari Capital",
+    mockTokens: [
+      [
+        { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
+        { decimals:18,  name:"Rari DAI Pool Token", symbol:"RDPT" }
+      ],
+      [
+        { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Rari Stable Pool Token", symbol:"RSPT" }
+      ]
+    ],
+    exchangeRatePrecision: () => 18, // exchange rate precision = Always 18
+    // RariTempusPool is deployed with the Fund Manager and Backing Token instead of the YBT
+    deployArgs: (a) => [a.underlyingProtocol, a.asset, ...defaultDeployArgs(a).slice(1)]
+  },
+  {
+    type: PoolType.Maple,
+    displayName: "Maple",
+    mockTokens: [
+      [
+        { decimals:18, name:"Dai Stablecoin", symbol:"DAI", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Maple Pool FDT DAI", symbol:"MPL-LP-DAI" }
+      ],
+      [
+        { decimals:6, name:"USD Coin", symbol:"USDC", totalSupply:TOTAL_SUPPLY },
+        { decimals:18, name:"Maple Pool FDT USDC", symbol:"MPL-LP-USDC" }
+      ]
+    ],
+    exchangeRatePrecision: () => 18, // MapleTempusPool interest rate is always an 1e18 decimal
+    deployArgs: defaultDeployArgs // Maple Pool is also the PoolFDT
+  }
+];
+
+/**
+ * @returns All registered protocols
+ */
+export function allProtocols(): ProtocolInfo[] {
+  return PROTOCOLS;
+}
+
+/**
+ * @returns Registered protocol info of PoolType
+ */
+export function getProtocol(type:PoolType): ProtocolInfo {
+  for (const protocol of PROTOCOLS) {
+    if (protocol.type === type) {
+      return protocol;
+    }
+  }
+  throw new Error("Unsupported PoolType " + type);
+}
+
+// Prints "<PoolType> <ASSET symbols...>" lines for run_tests.sh
+if (require.main === module) {
+  for (const protocol of PROTOCOLS) {
+    const assets = protocol.mockTokens.map(pair => pair[0].symbol);
+    console.log([protocol.type, ...assets].join(" "));
+  }
+}
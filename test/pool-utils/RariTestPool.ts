@@ -25,9 +25,12 @@ export class RariTestPool extends PoolTestFixture {
   async deposit(user:Signer, amount:number): Promise<void> {
     await this.rari.deposit(user, amount);
   }
+  async createMock(initialRate:number): Promise<RariFundManager> {
+    return await RariFundManager.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
   async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
     return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
-      return await RariFundManager.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
+      return await this.createMock(this.initialRate);
     }, (pool:ContractBase) => {
       this.rari = <RariFundManager>pool;
       this.asset = this.rari.asset;
@@ -22,9 +22,12 @@ export class YearnTestPool extends PoolTestFixture {
   async deposit(user:Signer, amount:number): Promise<void> {
     await this.yearn.deposit(user, amount);
   }
+  async createMock(initialRate:number): Promise<YearnVault> {
+    return await YearnVault.create(this.ASSET_TOKEN, this.YIELD_TOKEN, initialRate);
+  }
   async createWithAMM(params:TempusAMMParams): Promise<TempusPool> {
     return await this.initPool(params, this.YIELD_TOKEN.name, this.YIELD_TOKEN.symbol, async () => {
-      return await YearnVault.create(this.ASSET_TOKEN, this.YIELD_TOKEN, this.initialRate);
+      return await this.createMock(this.initialRate);
     }, (pool:ContractBase) => {
       this.yearn = <YearnVault>pool;
       this.asset = this.yearn.asset;
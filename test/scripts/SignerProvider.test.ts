@@ -0,0 +1,168 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Signer } from "../utils/ContractBase";
+import { describeNonPool } from "../pool-utils/MultiPoolTestSuite";
+import { deployContract, getDeployerSigner, UnsignedTransactionExporter, UnsignedTransactionPending } from "../../scripts/utils";
+
+describeNonPool("SignerProvider", async () => {
+  let owner:Signer;
+  let tmpDir:string;
+
+  beforeEach(async () => {
+    [owner] = await ethers.getSigners();
+    tmpDir = mkdtempSync(join(tmpdir(), "tempus-signer-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function fund(address:string): Promise<void> {
+    await owner.sendTransaction({ to: address, value: ethers.utils.parseEther("10") });
+  }
+
+  async function expectDeployedBy(signer:Wallet): Promise<void> {
+    const contract = await deployContract("OwnableMock", [], signer);
+    await contract.deployed();
+    expect(await contract.owner()).to.equal(signer.address);
+  }
+
+  describe("keystore", () => {
+    let wallet:Wallet;
+    let keystorePath:string;
+
+    beforeEach(async () => {
+      wallet = ethers.Wallet.createRandom();
+      keystorePath = join(tmpDir, "keystore.json");
+      // minimal scrypt cost to keep the test fast
+      writeFileSync(keystorePath, await wallet.encrypt("correct horse", { scrypt: { N: 1 << 4 } }));
+    });
+
+    it("Decrypts the keystore and deploys with it", async () => {
+      const signer = await getDeployerSigner({ mode: 'keystore', keystorePath, keystorePassword: "correct horse" }) as Wallet;
+      expect(signer.address).to.equal(wallet.address);
+      expect(signer.provider).to.equal(ethers.provider);
+
+      await fund(signer.address);
+      await expectDeployedBy(signer);
+    });
+
+    it("Rejects a wrong password", async () => {
+      let error:Error = null;
+      try {
+        await getDeployerSigner({ mode: 'keystore', keystorePath, keystorePassword: "wrong" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.not.be.null;
+      expect(error.message).to.contain("invalid password");
+    });
+
+    it("Requires the keystore path", async () => {
+      let error:Error = null;
+      try {
+        await getDeployerSigner({ mode: 'keystore', keystorePassword: "correct horse" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error.message).to.equal("keystore signer requires the path of the encrypted JSON keystore");
+    });
+  });
+
+  describe("mnemonic", () => {
+    const mnemonic = "test test test test test test test test test test test junk";
+
+    it("Derives the first account by default", async () => {
+      const signer = await getDeployerSigner({ mode: 'mnemonic', mnemonic }) as Wallet;
+      expect(signer.address).to.equal("0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266");
+    });
+
+    it("Derives the account of the derivation path and deploys with it", async () => {
+      const signer = await getDeployerSigner({ mode: 'mnemonic', mnemonic, derivationPath: "m/44'/60'/0'/0/1" }) as Wallet;
+      expect(signer.address).to.equal("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+
+      await fund(signer.address);
+      await expectDeployedBy(signer);
+    });
+  });
+
+  describe("unsigned", () => {
+    it("Requires the offline signer address", async () => {
+      let error:Error = null;
+      try {
+        await getDeployerSigner({ mode: 'unsigned', unsignedTxDir: tmpDir });
+      } catch (e) {
+        error = e;
+      }
+      expect(error.message).to.equal("unsigned signer requires the address of the offline signer, got undefined");
+    });
+
+    async function broadcastSigned(offlineWallet:Wallet, unsignedTransaction:string): Promise<void> {
+      const tx = ethers.utils.parseTransaction(unsignedTransaction);
+      const signedTx = await offlineWallet.signTransaction({
+        to: tx.to, nonce: tx.nonce, gasLimit: tx.gasLimit, gasPrice: tx.gasPrice, data: tx.data, value: tx.value, chainId: tx.chainId
+      });
+      await (await ethers.provider.sendTransaction(signedTx)).wait();
+    }
+
+    it("Exports the queued deployments which deploy the contracts once signed offline", async () => {
+      const offlineWallet = ethers.Wallet.createRandom();
+      const signer = await getDeployerSigner({ mode: 'unsigned', address: offlineWallet.address, unsignedTxDir: tmpDir }) as UnsignedTransactionExporter;
+      expect(await signer.getAddress()).to.equal(offlineWallet.address);
+
+      const first = await deployContract("OwnableMock", [], signer);
+      const second = await deployContract("OwnableMock", [], signer);
+      expect(first.address).to.equal(ethers.utils.getContractAddress({ from: offlineWallet.address, nonce: 0 }));
+      expect(second.address).to.equal(ethers.utils.getContractAddress({ from: offlineWallet.address, nonce: 1 }));
+      expect(await ethers.provider.getTransactionCount(offlineWallet.address)).to.equal(0, "nothing must be sent");
+
+      const exportPath = signer.exportQueued();
+      expect(existsSync(exportPath)).to.be.true;
+      const exportedJson = JSON.parse(readFileSync(exportPath, 'utf-8'));
+      expect(exportedJson.from).to.equal(offlineWallet.address);
+      expect(exportedJson.transactions.map(exported => exported.contractAddress)).to.deep.equal([first.address, second.address]);
+
+      await fund(offlineWallet.address);
+      for (const exported of exportedJson.transactions) {
+        await broadcastSigned(offlineWallet, exported.unsignedTransaction);
+      }
+      for (const contract of [first, second]) {
+        expect(await (await ethers.getContractAt("OwnableMock", contract.address)).owner()).to.equal(offlineWallet.address);
+      }
+    });
+
+    it("Exports nothing if nothing is queued", async () => {
+      const signer = await getDeployerSigner({ mode: 'unsigned', address: owner.address, unsignedTxDir: tmpDir }) as UnsignedTransactionExporter;
+      expect(signer.exportQueued()).to.be.null;
+    });
+
+    it("Rejects waiting for a queued transaction", async () => {
+      const signer = await getDeployerSigner({ mode: 'unsigned', address: owner.address, unsignedTxDir: tmpDir });
+      const contract = await deployContract("OwnableMock", [], signer);
+
+      let error:UnsignedTransactionPending = null;
+      try {
+        await contract.deployed();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(UnsignedTransactionPending);
+      expect(error.contractAddress).to.equal(contract.address);
+    });
+
+    it("Refuses to sign", async () => {
+      const signer = await getDeployerSigner({ mode: 'unsigned', address: owner.address, unsignedTxDir: tmpDir });
+      let error:Error = null;
+      try {
+        await signer.signMessage("message");
+      } catch (e) {
+        error = e;
+      }
+      expect(error.message).to.equal("UnsignedTransactionExporter cannot sign messages");
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { describeNonPool } from "../pool-utils/MultiPoolTestSuite";
+import { ChainlinkAggregator } from "../utils/ChainlinkAggregator";
+import { Stats } from "../utils/Stats";
+import { blockTimestamp, expectRevert } from "../utils/Utils";
+
+describeNonPool("ChainlinkTokenPairPriceFeed", () =>
+{
+  let stats:Stats;
+
+  beforeEach(async () =>
+  {
+    stats = await Stats.create();
+  });
+
+  it("Should return the rate of an 8 decimals aggregator", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/3500.5);
+    expect(await stats.getRate(aggregator)).to.equal(3500.5);
+
+    const { rate, rateDenominator } = await stats.contract.getRate(aggregator.address);
+    expect(rate.toString()).to.equal("350050000000");
+    expect(rateDenominator.toString()).to.equal("100000000");
+  });
+
+  it("Should return the rate of an 18 decimals aggregator", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.0005");
+    expect(await stats.getRate(aggregator)).to.equal(0.0005);
+
+    const { rate, rateDenominator } = await stats.contract.getRate(aggregator.address);
+    expect(rate.toString()).to.equal("500000000000000");
+    expect(rateDenominator.toString()).to.equal("1000000000000000000");
+  });
+
+  it("Should return the latest answer", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/3500);
+    await aggregator.setAnswer(3600);
+
+    const round = await aggregator.latestRoundData();
+    expect(round.roundId).to.equal(2);
+    expect(round.answeredInRound).to.equal(2);
+    expect(round.updatedAt).to.equal(await blockTimestamp());
+    expect(await stats.getRate(aggregator)).to.equal(3600);
+  });
+
+  it("Should scale the rate by the aggregator decimals", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/1);
+    await aggregator.setDecimals(8);
+    expect(await stats.getRate(aggregator)).to.equal(1e10, "raw answer of 1e18 with 8 decimals");
+  });
+
+  it("Should revert on non-positive answers", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/-1);
+    (await expectRevert(stats.getRate(aggregator))).to.equal(":NonPositiveChainlinkAnswer");
+
+    await aggregator.setAnswer(0);
+    (await expectRevert(stats.getRate(aggregator))).to.equal(":NonPositiveChainlinkAnswer");
+  });
+
+  it("Should revert on incomplete rounds", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/3500);
+    await aggregator.setAnswer(3600);
+    await aggregator.setAnsweredInRound(1);
+    (await expectRevert(stats.getRate(aggregator))).to.equal(":IncompleteChainlinkRound");
+
+    await aggregator.setAnsweredInRound(2);
+    await aggregator.setRoundTimestamps(/*startedAt*/0, /*updatedAt*/0);
+    (await expectRevert(stats.getRate(aggregator))).to.equal(":IncompleteChainlinkRound");
+  });
+
+  it("Should revert on stale answers only if max age is given", async () =>
+  {
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/3500);
+    const now = await blockTimestamp();
+    await aggregator.setRoundTimestamps(now - 7200, now - 7200);
+
+    expect(await stats.getRate(aggregator)).to.equal(3500);
+    expect(await stats.getRateWithMaxAge(aggregator, /*maxAge*/86400)).to.equal(3500);
+    (await expectRevert(stats.getRateWithMaxAge(aggregator, /*maxAge*/3600))).to.equal(":StaleChainlinkAnswer");
+  });
+
+  it("Should chain 18 and 8 decimals aggregators of stETH->ETH->USD", async () =>
+  {
+    const stETHtoETH = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.99");
+    const ETHtoUSD = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/3500);
+    expect(await stats.getPathRate([{ aggregator: stETHtoETH }, { aggregator: ETHtoUSD }])).to.equal(3465);
+
+    const { rate, rateDenominator } = await stats.contract.getRate(stETHtoETH.address);
+    expect(rate.toString()).to.equal("990000000000000000");
+    expect(rateDenominator.toString()).to.equal("1000000000000000000");
+  });
+
+  it("Should chain aggregators of USDC->ETH->USD", async () =>
+  {
+    const USDCtoETH = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.0004");
+    const ETHtoUSD = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/2500);
+    expect(await stats.getPathRate([{ aggregator: USDCtoETH }, { aggregator: ETHtoUSD }])).to.equal(1);
+    expect(await stats.getPathRate([{ aggregator: ETHtoUSD }])).to.equal(2500);
+  });
+
+  it("Should check every aggregator of a path", async () =>
+  {
+    const USDCtoETH = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.0004");
+    const ETHtoUSD = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/2500);
+    const now = await blockTimestamp();
+    await ETHtoUSD.setRoundTimestamps(now - 7200, now - 7200);
+
+    const path = [{ aggregator: USDCtoETH, maxAge: 3600 }, { aggregator: ETHtoUSD, maxAge: 3600 }];
+    (await expectRevert(stats.getPathRate(path))).to.equal(":StaleChainlinkAnswer");
+
+    await ETHtoUSD.setAnswer(-2500);
+    (await expectRevert(stats.getPathRate(path))).to.equal(":NonPositiveChainlinkAnswer");
+  });
+
+  it("Should revert on empty paths", async () =>
+  {
+    (await expectRevert(stats.getPathRate([]))).to.equal(":EmptyChainlinkPath");
+  });
+});
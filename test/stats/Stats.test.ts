@@ -4,8 +4,12 @@ import { TempusPool } from "../utils/TempusPool";
 import { describeForEachPool } from "../pool-utils/MultiPoolTestSuite";
 import { PoolTestFixture } from "../pool-utils/PoolTestFixture";
 import { Stats } from "../utils/Stats";
+import { ChainlinkAggregator } from "../utils/ChainlinkAggregator";
 import { TempusController } from "../utils/TempusController";
 import { TempusPoolAMM } from "../utils/TempusPoolAMM";
+import { blockTimestamp, expectRevert } from "../utils/Utils";
+
+const ONE_YEAR = 365*24*60*60;
 
 describeForEachPool("Stats", (testPool:PoolTestFixture) =>
 {
@@ -32,6 +36,38 @@ describeForEachPool("Stats", (testPool:PoolTestFixture) =>
     stats = await Stats.create();
   });
   
+  it("TVL at given rate is denominated in the aggregator pair, for 8 and 18 decimals", async () =>
+  {
+    await controller.depositYieldBearing(user2, pool, 100);
+    // share prices are rounded down to backing token precision
+    const tvl = +await stats.totalValueLockedInBackingTokens(testPool);
+    expect(tvl).to.be.closeTo(100, 0.0002);
+
+    const usdAggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/2000.5);
+    expect(+await stats.totalValueLockedAtGivenRate(testPool, usdAggregator)).to.be.closeTo(tvl * 2000.5, 0.000001);
+
+    const ethAggregator = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.0005");
+    expect(+await stats.totalValueLockedAtGivenRate(testPool, ethAggregator)).to.be.closeTo(tvl * 0.0005, 0.000001);
+
+    await testPool.setInterestRate(1.5);
+    const tvlAtRate = +await stats.totalValueLockedInBackingTokens(testPool);
+    expect(tvlAtRate).to.be.closeTo(150, 0.0002);
+    expect(+await stats.totalValueLockedAtGivenRate(testPool, usdAggregator)).to.be.closeTo(tvlAtRate * 2000.5, 0.000001);
+  });
+
+  it("TVL at given path chains the aggregators of the path", async () =>
+  {
+    await controller.depositYieldBearing(user2, pool, 100);
+
+    const ethAggregator = await ChainlinkAggregator.create(/*decimals*/18, /*answer*/"0.0005");
+    const usdAggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/2000);
+    const path = [{ aggregator: ethAggregator, maxAge: 3600 }, { aggregator: usdAggregator, maxAge: 3600 }];
+    const tvl = +await stats.totalValueLockedInBackingTokens(testPool);
+    expect(+await stats.totalValueLockedAtGivenPath(testPool, path)).to.be.closeTo(tvl, 0.000001, "100 BT at 0.0005 ETH at 2000 USD");
+
+    (await expectRevert(stats.totalValueLockedAtGivenPath(testPool, []))).to.equal(":EmptyChainlinkPath");
+  });
+
   it("Estimated Minted Shares returns expected values", async () =>
   {
     expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(10, "1x shares minting YBT with rate 1.0");
@@ -126,4 +162,80 @@ describeForEachPool("Stats", (testPool:PoolTestFixture) =>
     expect(+r4.tokenAmount).to.equal(5, "With 1.5 rate, 10Yi gives 5 BT");
     expect(+r4.lpTokensRedeemed).to.equal(0, "We did not request any staked principals/yields, so it should be 0");
   });
+
+  it("Implied fixed APR matches the estimated DepositAndFix return", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200); // 10% rate
+    const fixedReturn = +await stats.estimatedDepositAndFix(testPool, 1, /*BT*/true) - 1;
+    const timeToMaturity = +await pool.maturityTime() - await blockTimestamp();
+
+    const expectedAPR = fixedReturn * ONE_YEAR / timeToMaturity;
+    expect(await stats.impliedFixedAPR(testPool)).to.be.closeTo(expectedAPR, expectedAPR * 0.0001);
+  });
+
+  it("Implied fixed APR is not available after maturity", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
+    await testPool.fastForwardToMaturity();
+    (await expectRevert(stats.impliedFixedAPR(testPool))).to.equal("Pool already finalized!");
+  });
+
+  it("Yield curve lists implied fixed APR of pools with the same YBT", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
+    const next = await testPool.createNextPool(/*poolDuration*/30*24*60*60);
+    await controller.depositYieldBearing(user1, next.tempus, 1200);
+    await next.amm.provideLiquidity(user1, 120, 1200);
+
+    const curve = await stats.yieldCurve([amm, next.amm]);
+    expect(curve.length).to.equal(2);
+    expect(curve[0].pool).to.equal(pool.address);
+    expect(curve[1].pool).to.equal(next.tempus.address);
+    expect(curve[1].maturity.getTime()).to.equal(+await next.tempus.maturityTime() * 1000);
+    expect(curve[0].fixedAPR).to.equal(await stats.impliedFixedAPR(testPool));
+    expect(curve[0].fixedAPR).to.be.greaterThan(curve[1].fixedAPR, "same yield over a shorter period is a higher APR");
+
+    await testPool.fastForwardToMaturity();
+    const maturedCurve = await stats.yieldCurve([amm, next.amm]);
+    expect(maturedCurve[0].fixedAPR).to.equal(0);
+    expect(maturedCurve[1].fixedAPR).to.be.greaterThan(0);
+  });
+
+  it("Portfolio lists shares and LP tokens with their estimated value", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
+    await controller.depositYieldBearing(user2, pool, 10);
+    const next = await testPool.createNextPool(/*poolDuration*/30*24*60*60);
+
+    const threshold = pool.principalShare.decimals == 18 ? "0.00001" : "0.01"; // same as Stats.estimateExitAndRedeem
+    const [holding1, empty] = await stats.portfolioOf(user1, [testPool, next], threshold);
+    expect(holding1.pool).to.equal(pool);
+    expect(+holding1.principals).to.equal(1080);
+    expect(+holding1.yields).to.equal(0);
+    expect(+holding1.lpTokens).to.equal(+await amm.balanceOf(user1));
+    const composition = await amm.compositionBalanceOf(user1);
+    expect(+holding1.principalsStaked).to.equal(+composition.token0);
+    expect(+holding1.yieldsStaked).to.equal(+composition.token1);
+    expect(+holding1.value).to.equal(+await stats.estimateExitAndRedeem(testPool, holding1.lpTokens, 1080, 0, /*BT*/true));
+
+    expect(empty.pool).to.equal(next.tempus);
+    expect(+empty.lpTokens).to.equal(0);
+    expect(+empty.value).to.equal(0);
+
+    const [holding2] = await stats.portfolioOf(user2, [testPool]);
+    expect(+holding2.principals).to.equal(10);
+    expect(+holding2.yields).to.equal(10);
+    expect(+holding2.value).to.equal(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true));
+  });
+
+  it("Portfolio values matured holdings at the redemption value", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
+    await testPool.setInterestRate(1.5);
+    await testPool.fastForwardToMaturity();
+
+    const [holding] = await stats.portfolioOf(user1, [testPool]);
+    const redeemed = await stats.estimatedRedeem(testPool, 1200, 1200, /*BT*/true);
+    expect(+holding.value).to.be.closeTo(+redeemed, 0.000001, "all shares including staked ones are redeemable");
+  });
 });
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { Signer } from "../utils/ContractBase";
+import { TempusPool } from "../utils/TempusPool";
+import { describeForEachPool } from "../pool-utils/MultiPoolTestSuite";
+import { PoolTestFixture } from "../pool-utils/PoolTestFixture";
+import { TempusLens } from "../utils/TempusLens";
+import { TempusController } from "../utils/TempusController";
+import { TempusPoolAMM } from "../utils/TempusPoolAMM";
+import { expectRevert } from "../utils/Utils";
+
+describeForEachPool("TempusLens", (testPool:PoolTestFixture) =>
+{
+  let owner:Signer, user1:Signer;
+  let pool:TempusPool;
+  let amm:TempusPoolAMM;
+  let lens:TempusLens;
+  let controller:TempusController;
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.createDefault();
+    amm = testPool.amm;
+    controller = testPool.tempus.controller;
+    [owner, user1] = testPool.signers;
+    await testPool.setupAccounts(owner, [[user1,/*ybt*/1000000]]);
+    lens = await TempusLens.create();
+  });
+
+  it("Pool state matches the individual pool and AMM calls", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 1200);
+    await amm.provideLiquidity(user1, 120, 1200);
+    await testPool.setInterestRate(1.5);
+
+    const [state] = await lens.poolStates([pool], [amm]);
+    expect(state.pool).to.equal(pool);
+    expect(state.startTime.getTime()).to.equal(+await pool.startTime() * 1000);
+    expect(state.maturityTime.getTime()).to.equal(+await pool.maturityTime() * 1000);
+    expect(state.exceptionalHaltTime).to.be.null;
+    expect(state.matured).to.be.false;
+    expect(+state.initialInterestRate).to.equal(+await pool.initialInterestRate());
+    expect(+state.currentInterestRate).to.equal(+await pool.currentInterestRate());
+    expect(+state.totalFees).to.equal(+await pool.totalFees());
+    expect(+state.pricePerPrincipalShare).to.equal(+await pool.pricePerPrincipalShare());
+    expect(+state.pricePerYieldShare).to.equal(+await pool.pricePerYieldShare());
+    // both prices are rounded down to backing token precision
+    expect(+state.pricePerPrincipalShare + +state.pricePerYieldShare).to.be.closeTo(1.5, 0.000002);
+    expect(+state.totalValueLocked).to.be.closeTo(1800, 0.003, "1200 Principals and Yields at rate 1.5");
+
+    expect(+state.amm.principals).to.equal(120);
+    expect(+state.amm.yields).to.equal(1200);
+    expect(+state.amm.lpTotalSupply).to.equal(+await amm.totalSupply());
+    expect(+state.amm.swapFeePercentage).to.equal(0.02);
+    expect(state.amm.amplification).to.equal(5);
+    expect(state.amm.amplificationUpdating).to.be.false;
+  });
+
+  it("Pool state of multiple pools, with and without an AMM", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100);
+    const next = await testPool.createNextPool(/*poolDuration*/30*24*60*60);
+    await testPool.fastForwardToMaturity();
+
+    const states = await lens.poolStates([pool, next.tempus], [amm, null]);
+    expect(states.length).to.equal(2);
+    expect(states[0].matured).to.be.true;
+    expect(+states[0].totalValueLocked).to.be.greaterThan(0);
+    expect(states[1].pool).to.equal(next.tempus);
+    expect(states[1].matured).to.be.false;
+    expect(+states[1].totalValueLocked).to.equal(0);
+    expect(states[1].amm).to.be.null;
+  });
+
+  it("Should reject AMMs of other pools", async () =>
+  {
+    const next = await testPool.createNextPool(/*poolDuration*/30*24*60*60);
+    (await expectRevert(lens.poolStates([pool], [next.amm]))).to.equal("AMM does not belong to the pool!");
+    (await expectRevert(lens.poolStates([pool], []))).to.equal("Pools and AMMs length mismatch!");
+  });
+});
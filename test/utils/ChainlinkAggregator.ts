@@ -0,0 +1,72 @@
+import { Contract } from "ethers";
+import { Numberish, parseDecimal } from "./DecimalUtils";
+import { ContractBase } from "./ContractBase";
+
+/**
+ * Latest round of a Chainlink aggregator
+ */
+export interface RoundData {
+  roundId:number;
+  answer:Numberish; // answer as a decimal, eg 3500.5 for ETH/USD
+  startedAt:number; // UNIX timestamp in seconds
+  updatedAt:number; // UNIX timestamp in seconds
+  answeredInRound:number;
+}
+
+/**
+ * Wrapper around ChainlinkAggregatorMock
+ */
+export class ChainlinkAggregator extends ContractBase {
+  constructor(contract:Contract, decimals:number) {
+    super("ChainlinkAggregatorMock", decimals, contract);
+  }
+
+  /**
+   * @param decimals Decimals of the answer, Chainlink USD pairs use 8, ETH pairs use 18
+   * @param answer Initial answer, eg 3500.5 for ETH/USD
+   */
+  static async create(decimals:number, answer:Numberish): Promise<ChainlinkAggregator> {
+    const aggregator = await ContractBase.deployContract("ChainlinkAggregatorMock", decimals, parseDecimal(answer, decimals));
+    return new ChainlinkAggregator(aggregator, decimals);
+  }
+
+  async latestRoundData(): Promise<RoundData> {
+    const r = await this.contract.latestRoundData();
+    return {
+      roundId: r.roundId.toNumber(),
+      answer: this.fromBigNum(r.answer),
+      startedAt: r.startedAt.toNumber(),
+      updatedAt: r.updatedAt.toNumber(),
+      answeredInRound: r.answeredInRound.toNumber()
+    };
+  }
+
+  /**
+   * Starts a new round with `answer` at the current block timestamp
+   */
+  async setAnswer(answer:Numberish): Promise<void> {
+    await this.contract.setAnswer(this.toBigNum(answer));
+  }
+
+  /**
+   * Changes the decimals of the answer, the raw answer stays the same
+   */
+  async setDecimals(decimals:number): Promise<void> {
+    await this.contract.setDecimals(decimals);
+    this.decimals = decimals;
+  }
+
+  /**
+   * Overrides the timestamps of the latest round, eg to simulate a stale price
+   */
+  async setRoundTimestamps(startedAt:number, updatedAt:number): Promise<void> {
+    await this.contract.setRoundTimestamps(startedAt, updatedAt);
+  }
+
+  /**
+   * Overrides the round in which the latest answer was computed
+   */
+  async setAnsweredInRound(round:number): Promise<void> {
+    await this.contract.setAnsweredInRound(round);
+  }
+}
@@ -10,6 +10,9 @@ export interface IERC20 {
   /** @brief Decimals precision of this contract's numbers */
   decimals:number;
 
+  /** @brief Address of this contract, zero address for ETH */
+  address:string;
+
   /** @return ERC20 name of this contract */
   name(): Promise<string>;
 
@@ -0,0 +1,143 @@
+import { Contract } from "ethers";
+import { Decimal, decimal } from "./Decimal";
+import { Numberish, formatDecimal, parseDecimal } from "./DecimalUtils";
+import { ContractBase, SignerOrAddress, addressOf } from "./ContractBase";
+import { ERC20 } from "./ERC20";
+import { TokenInfo } from "../pool-utils/TokenInfo";
+
+export class MaplePool extends ContractBase {
+  asset:ERC20;
+  yieldToken:ERC20; // the Maple Pool itself is the PoolFDT
+  globals:Contract; // MapleGlobals of the pool, which holds the withdraw cooldown params
+
+  constructor(pool:Contract, asset:ERC20, yieldToken:ERC20, globals:Contract) {
+    super("MaplePoolMock", yieldToken.decimals, pool);
+    this.asset = asset;
+    this.yieldToken = yieldToken;
+    this.globals = globals;
+  }
+
+  /**
+   * @param ASSET ASSET token info
+   * @param YIELD YIELD token info
+   * @param initialRate Initial interest rate
+   */
+  static async create(ASSET:TokenInfo, YIELD:TokenInfo, initialRate:number = 1.0): Promise<MaplePool> {
+    const asset = await ERC20.deploy(
+      "ERC20FixedSupply", ASSET.decimals, ASSET.decimals, ASSET.name, ASSET.symbol, parseDecimal(ASSET.totalSupply, ASSET.decimals)
+    );
+    const pool = await ContractBase.deployContract(
+      "MaplePoolMock", asset.address, parseDecimal(initialRate, 18), YIELD.name, YIELD.symbol
+    );
+    const yieldToken = await ERC20.attach("MaplePoolMock", pool.address, YIELD.decimals);
+    const factory = await ContractBase.attachContract("MaplePoolFactoryMock", await pool.superFactory());
+    const globals = await ContractBase.attachContract("MapleGlobalsMock", await factory.globals());
+    return new MaplePool(pool, asset, yieldToken, globals);
+  }
+
+  /**
+   * @return Current accrued interest rate of the pool, eg. 1.05
+   */
+  async interestRate(): Promise<Numberish> {
+    return formatDecimal(await this.contract.interestRate(), 18);
+  }
+
+  /**
+   * Sets the Maple pool's MOCK accrued interest rate
+   * @param owner If set, the accrued interest is funded by transferring Liquidity Asset from `owner`
+   */
+  async setInterestRate(interestRate:Numberish, owner:SignerOrAddress = null): Promise<void> {
+    if (owner !== null) {
+      const difference = decimal(interestRate).sub(await this.interestRate());
+      if (difference.gt(0)) {
+        const totalSupply = await this.yieldToken.totalSupply();
+        await this.asset.transfer(owner, this.address, totalSupply.mul(difference));
+      }
+    }
+    await this.contract.setInterestRate(decimal(interestRate).toBigNumber());
+  }
+
+  /**
+   * Simulates a Maple loan default, writing down the value of all outstanding PoolFDTs
+   * @param lossRate Loss per PoolFDT, eg. 0.2 for a 20% loss
+   */
+  async writeDown(lossRate:Numberish): Promise<void> {
+    await this.contract.writeDown(parseDecimal(lossRate, 18));
+  }
+
+  /**
+   * @return Losses of the user which will be deducted from their next withdrawal, in Liquidity Asset precision
+   */
+  async recognizableLossesOf(user:SignerOrAddress): Promise<Decimal> {
+    return this.asset.toDecimal(await this.contract.recognizableLossesOf(addressOf(user)));
+  }
+
+  /**
+   * @return Interest accrued by the user, in Liquidity Asset precision
+   */
+  async withdrawableFundsOf(user:SignerOrAddress): Promise<Decimal> {
+    return this.asset.toDecimal(await this.contract.withdrawableFundsOf(addressOf(user)));
+  }
+
+  /**
+   * @return Total interest ever accrued by the user, in Liquidity Asset precision
+   */
+  async accumulativeFundsOf(user:SignerOrAddress): Promise<Decimal> {
+    return this.asset.toDecimal(await this.contract.accumulativeFundsOf(addressOf(user)));
+  }
+
+  /**
+   * Withdraws all interest accrued by the user
+   */
+  async withdrawFunds(user:SignerOrAddress): Promise<void> {
+    await this.contract.connect(user).withdrawFunds();
+  }
+
+  /**
+   * Sets the Maple pool's MOCK lockup period, which applies to withdrawals after each deposit
+   * @param lockupPeriod Lockup period in seconds
+   */
+  async setLockupPeriod(lockupPeriod:number): Promise<void> {
+    await this.contract.setLockupPeriod(lockupPeriod);
+  }
+
+  /**
+   * Sets the MOCK MapleGlobals withdraw cooldown parameters of the Maple pool
+   * @param cooldownPeriod Seconds between `intendToWithdraw` and the opening of the withdraw window
+   * @param withdrawWindow Duration of the withdraw window in seconds
+   */
+  async setWithdrawCooldownParams(cooldownPeriod:number, withdrawWindow:number): Promise<void> {
+    await this.globals.setLpCooldownPeriod(cooldownPeriod);
+    await this.globals.setLpWithdrawWindow(withdrawWindow);
+  }
+
+  /**
+   * @return Cooldown period in seconds between `intendToWithdraw` and the opening of the withdraw window
+   */
+  async lpCooldownPeriod(): Promise<number> {
+    const [cooldownPeriod] = await this.globals.getLpCooldownParams();
+    return cooldownPeriod.toNumber();
+  }
+
+  /**
+   * Starts the withdraw cooldown of the user
+   */
+  async intendToWithdraw(user:SignerOrAddress): Promise<void> {
+    await this.contract.connect(user).intendToWithdraw();
+  }
+
+  /**
+   * Approves and deposits Liquidity Asset from User into the Maple Pool
+   */
+  async deposit(user:SignerOrAddress, amount:Numberish): Promise<void> {
+    await this.asset.approve(user, this.address, amount);
+    await this.contract.connect(user).deposit(this.asset.toBigNum(amount));
+  }
+
+  /**
+   * Withdraws Liquidity Asset from the Maple Pool, burning the same amount of PoolFDTs
+   */
+  async withdraw(user:SignerOrAddress, amount:Numberish): Promise<void> {
+    await this.contract.connect(user).withdraw(this.asset.toBigNum(amount));
+  }
+}
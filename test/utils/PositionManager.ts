@@ -0,0 +1,269 @@
+import { BigNumber, Contract, Transaction } from "ethers";
+import { Decimal } from "./Decimal";
+import { Numberish, toWei } from "./DecimalUtils";
+import { ContractBase, Signer, SignerOrAddress, addressOf } from "./ContractBase";
+import { ERC20Ether } from "./ERC20Ether";
+import { TempusController } from "./TempusController";
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+
+/**
+ * Decoded PositionManager Position
+ */
+export interface Position {
+  capitals:Decimal; // amount of Capitals (Principals) held by the position
+  yields:Decimal; // amount of Yields held by the position
+  amm:string; // address of the TempusAMM, zero address if the position doesn't exist
+  depositedBackingTokens:Decimal; // value of the deposit in BackingTokens at the time of minting
+}
+
+/**
+ * Parameters for liquidating a position, amounts and rates are in decimals, eg 0.01
+ */
+export interface BurnParams {
+  maxLeftoverShares:Numberish; // maximum amount of Principals or Yields to be left unredeemed
+  yieldsRate:Numberish; // base exchange rate of Yields (denominated in Principals)
+  maxSlippage:Numberish; // maximum allowed slippage, eg 0.03 for 3%
+  toBackingToken:boolean; // liquidate to BackingTokens instead of YieldBearingTokens
+  recipient?:SignerOrAddress; // receiver of the liquidated tokens, default is the caller
+  deadline?:Date; // a timestamp by which the transaction must be completed, default is no deadline
+}
+
+/**
+ * Wrapper around PositionManager
+ */
+export class PositionManager extends ContractBase {
+  private static _contractName = "PositionManager";
+
+  constructor(contract: Contract) {
+    super(PositionManager._contractName, 0, contract);
+  }
+
+  /**
+   * Deploys a new instance of PositionManager
+   * @param controller The TempusController used for minting and burning positions
+   */
+  static async deploy(
+    controller: TempusController,
+    name: string = "Tempus Positions",
+    symbol: string = "POSITION",
+    deployer?: Signer
+  ): Promise<PositionManager> {
+    const positionManager = deployer
+      ? await ContractBase.deployContractBy(PositionManager._contractName, deployer, controller.address, name, symbol)
+      : await ContractBase.deployContract(PositionManager._contractName, controller.address, name, symbol);
+    return new PositionManager(positionManager);
+  }
+
+  /**
+   * Approves either BT or YBT transfer, ETH is sent as tx value instead
+   */
+  async approve(pool:TempusPool, user:SignerOrAddress, amount:Numberish, isBackingToken:boolean) {
+    const token = isBackingToken ? pool.asset : pool.yieldBearing;
+    await token.approve(user, this.address, amount);
+  }
+
+  /**
+   * Deposits BT/YBT and swaps all Yields for Capitals to get a fixed rate position
+   * @param user The user who is depositing
+   * @param pool The TempusPool to deposit into
+   * @param amm The TempusAMM of the pool
+   * @param tokenAmount Amount of BT/YBT to deposit
+   * @param isBackingToken Specifies whether the deposited asset is BT or YBT
+   * @param worstCapitalsRate Worst acceptable Capitals rate (denominated in Yields)
+   * @param recipient Receiver of the position NFT
+   * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
+   * @returns Id of the minted position
+   */
+  async mintFixed(
+    user: SignerOrAddress,
+    pool: TempusPool,
+    amm: TempusPoolAMM,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    worstCapitalsRate: Numberish,
+    recipient: SignerOrAddress = user,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<number> {
+    return this.mint(user, pool, amm, /*leverageMultiplier*/0, tokenAmount, isBackingToken, worstCapitalsRate, recipient, deadline);
+  }
+
+  /**
+   * Deposits BT/YBT and swaps Capitals for Yields to get a leveraged yield position
+   * @param user The user who is depositing
+   * @param pool The TempusPool to deposit into
+   * @param amm The TempusAMM of the pool
+   * @param leverageMultiplier Leverage of the position, must be greater than 1.0
+   * @param tokenAmount Amount of BT/YBT to deposit
+   * @param isBackingToken Specifies whether the deposited asset is BT or YBT
+   * @param worstCapitalsRate Worst acceptable Capitals rate (denominated in Yields)
+   * @param recipient Receiver of the position NFT
+   * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
+   * @returns Id of the minted position
+   */
+  async mintLeveraged(
+    user: SignerOrAddress,
+    pool: TempusPool,
+    amm: TempusPoolAMM,
+    leverageMultiplier: Numberish,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    worstCapitalsRate: Numberish,
+    recipient: SignerOrAddress = user,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<number> {
+    return this.mint(user, pool, amm, leverageMultiplier, tokenAmount, isBackingToken, worstCapitalsRate, recipient, deadline);
+  }
+
+  /**
+   * Mints a new position, ETH deposits are sent as tx value
+   * @param leverageMultiplier 0 for a fixed rate position, otherwise greater than 1.0
+   * @returns Id of the minted position
+   */
+  async mint(
+    user: SignerOrAddress,
+    pool: TempusPool,
+    amm: TempusPoolAMM,
+    leverageMultiplier: Numberish,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    worstCapitalsRate: Numberish,
+    recipient: SignerOrAddress = user,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<number> {
+    await this.approve(pool, user, tokenAmount, isBackingToken);
+    const isEther = isBackingToken && pool.asset instanceof ERC20Ether;
+    const params = {
+      tempusAMM: amm.address,
+      leverageMultiplier: toWei(leverageMultiplier),
+      tokenAmountToDeposit: isBackingToken ? pool.asset.toBigNum(tokenAmount) : pool.yieldBearing.toBigNum(tokenAmount),
+      worstAcceptableCapitalsRate: pool.principalShare.toBigNum(worstCapitalsRate),
+      deadline: parseInt((deadline.getTime() / 1000).toFixed(0)),
+      recipient: addressOf(recipient),
+      isBackingToken: isBackingToken
+    };
+    const overrides = { value: isEther ? pool.asset.toBigNum(tokenAmount) : 0 };
+
+    const tokenId:BigNumber = await this.connect(user).callStatic.mint(params, overrides);
+    await this.connect(user).mint(params, overrides);
+    return tokenId.toNumber();
+  }
+
+  /**
+   * Deposits additional BT/YBT into an existing position, ETH deposits are sent as tx value
+   * @param user Owner or approved operator of the position
+   * @param pool The TempusPool of the position
+   * @param tokenId Id of the position
+   * @param leverageMultiplier 0 for fixed rate positions, otherwise greater than 1.0
+   * @param tokenAmount Amount of BT/YBT to deposit
+   * @param isBackingToken Specifies whether the deposited asset is BT or YBT
+   * @param worstCapitalsRate Worst acceptable Capitals rate (denominated in Yields)
+   * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
+   */
+  async increase(
+    user: SignerOrAddress,
+    pool: TempusPool,
+    tokenId: number,
+    leverageMultiplier: Numberish,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    worstCapitalsRate: Numberish,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<Transaction> {
+    await this.approve(pool, user, tokenAmount, isBackingToken);
+    const isEther = isBackingToken && pool.asset instanceof ERC20Ether;
+    return this.connect(user).increase(tokenId, {
+      leverageMultiplier: toWei(leverageMultiplier),
+      tokenAmountToDeposit: isBackingToken ? pool.asset.toBigNum(tokenAmount) : pool.yieldBearing.toBigNum(tokenAmount),
+      worstAcceptableCapitalsRate: pool.principalShare.toBigNum(worstCapitalsRate),
+      deadline: parseInt((deadline.getTime() / 1000).toFixed(0)),
+      isBackingToken: isBackingToken
+    }, { value: isEther ? pool.asset.toBigNum(tokenAmount) : 0 });
+  }
+
+  /**
+   * Liquidates a fraction of a position, the rest of the position stays open
+   * @param user Owner or approved operator of the position
+   * @param pool The TempusPool of the position
+   * @param tokenId Id of the position
+   * @param fraction Fraction of the position to liquidate, eg 0.25
+   * @param params Liquidation parameters
+   * @returns Amount of liquidated BT/YBT sent to the recipient
+   */
+  async decrease(user:SignerOrAddress, pool:TempusPool, tokenId:number, fraction:Numberish, params:BurnParams): Promise<Numberish> {
+    const burnParams = this.burnParams(user, pool, params);
+    const liquidated:BigNumber = await this.connect(user).callStatic.decrease(tokenId, toWei(fraction), burnParams);
+    await this.connect(user).decrease(tokenId, toWei(fraction), burnParams);
+    return params.toBackingToken ? pool.asset.fromBigNum(liquidated) : pool.yieldBearing.fromBigNum(liquidated);
+  }
+
+  /**
+   * Liquidates a position and burns its NFT
+   * @param user Owner or approved operator of the position
+   * @param pool The TempusPool of the position
+   * @param tokenId Id of the position
+   * @param params Liquidation parameters
+   * @returns Amount of liquidated BT/YBT sent to the recipient
+   */
+  async burn(user:SignerOrAddress, pool:TempusPool, tokenId:number, params:BurnParams): Promise<Numberish> {
+    const burnParams = this.burnParams(user, pool, params);
+    const liquidated:BigNumber = await this.connect(user).callStatic.burn(tokenId, burnParams);
+    await this.connect(user).burn(tokenId, burnParams);
+    return params.toBackingToken ? pool.asset.fromBigNum(liquidated) : pool.yieldBearing.fromBigNum(liquidated);
+  }
+
+  private burnParams(user:SignerOrAddress, pool:TempusPool, params:BurnParams) {
+    return {
+      maxLeftoverShares: pool.principalShare.toBigNum(params.maxLeftoverShares),
+      yieldsRate: pool.principalShare.toBigNum(params.yieldsRate),
+      maxSlippage: toWei(params.maxSlippage),
+      deadline: parseInt(((params.deadline || new Date(8640000000000000)).getTime() / 1000).toFixed(0)),
+      recipient: addressOf(params.recipient || user),
+      toBackingToken: params.toBackingToken
+    };
+  }
+
+  /**
+   * @param pool The TempusPool of the position, used for decoding share amounts
+   * @param tokenId Id of the position
+   * @returns Decoded position, with zero address AMM if it doesn't exist
+   */
+  async position(pool:TempusPool, tokenId:number): Promise<Position> {
+    const p = await this.contract.position(tokenId);
+    return {
+      capitals: pool.principalShare.toDecimal(p.capitals),
+      yields: pool.yieldShare.toDecimal(p.yields),
+      amm: p.tempusAMM,
+      depositedBackingTokens: new Decimal(p.depositedBackingTokens, pool.asset.decimals)
+    };
+  }
+
+  /**
+   * @returns Address of the owner of the position
+   */
+  async ownerOf(tokenId:number): Promise<string> {
+    return this.contract.ownerOf(tokenId);
+  }
+
+  /**
+   * @returns Number of positions owned by `owner`
+   */
+  async balanceOf(owner:SignerOrAddress): Promise<number> {
+    return (await this.contract.balanceOf(addressOf(owner))).toNumber();
+  }
+
+  /**
+   * @returns Total number of open positions
+   */
+  async totalSupply(): Promise<number> {
+    return (await this.contract.totalSupply()).toNumber();
+  }
+
+  /**
+   * @returns Ids of all positions owned by `owner`
+   */
+  async tokensOfOwner(owner:SignerOrAddress): Promise<number[]> {
+    const tokenIds:BigNumber[] = await this.contract.tokensOfOwner(addressOf(owner));
+    return tokenIds.map(id => id.toNumber());
+  }
+}
@@ -1,8 +1,59 @@
-import { Contract } from "ethers";
-import { Numberish, toWei } from "./DecimalUtils";
-import { ContractBase } from "./ContractBase";
+import { BigNumber, Contract, constants } from "ethers";
+import { Decimal } from "./Decimal";
+import { Numberish, formatDecimal, toWei } from "./DecimalUtils";
+import { ContractBase, SignerOrAddress, addressOf } from "./ContractBase";
+import { ChainlinkAggregator } from "./ChainlinkAggregator";
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+import { PositionManager } from "./PositionManager";
 import { PoolTestFixture } from "../pool-utils/PoolTestFixture";
 
+/**
+ * Single aggregator of a Chainlink price path
+ */
+export interface ChainlinkHop {
+  aggregator:ChainlinkAggregator;
+  maxAge?:number; // maximum age of the answer in seconds, no staleness check if undefined
+}
+
+/**
+ * Open PositionManager position with its estimated value
+ */
+export interface PositionValue {
+  tokenId:number;
+  pool:TempusPool;
+  capitals:Decimal;
+  yields:Decimal;
+  leveraged:boolean; // fixed rate positions hold no Yields
+  depositedBackingTokens:Decimal; // value of the deposit in BackingTokens at the time of minting
+  value:Decimal; // estimated BackingTokens received for burning the position
+  profitLoss:Decimal; // value - depositedBackingTokens
+}
+
+/**
+ * Holdings of a user in a TempusPool and its TempusAMM
+ */
+export interface Holding {
+  pool:TempusPool;
+  amm:TempusPoolAMM;
+  principals:Decimal;
+  yields:Decimal;
+  lpTokens:Decimal;
+  principalsStaked:Decimal; // Principals that can be redeemed for `lpTokens`
+  yieldsStaked:Decimal; // Yields that can be redeemed for `lpTokens`
+  value:Decimal; // estimated BackingTokens received for exiting and redeeming all holdings
+}
+
+/**
+ * A single point of a yield curve
+ */
+export interface YieldCurvePoint {
+  pool:string; // address of the TempusPool
+  amm:string; // address of the TempusAMM
+  maturity:Date; // maturity time of the pool
+  fixedAPR:number; // implied annualised fixed APR, eg 0.048 for 4.8%, 0 if the pool has matured
+}
+
 export class Stats extends ContractBase {
   constructor(contract:Contract) {
     super("Stats", 18, contract);
@@ -12,6 +63,68 @@ export class Stats extends ContractBase {
     return new Stats(await ContractBase.deployContract("Stats"));
   }
 
+  /**
+   * @return Total value locked of the pool in BackingTokens
+   */
+  async totalValueLockedInBackingTokens(pool:PoolTestFixture): Promise<Numberish> {
+    return pool.tempus.asset.fromBigNum(await this.contract.totalValueLockedInBackingTokens(pool.tempus.address));
+  }
+
+  /**
+   * @param aggregator Chainlink aggregator of the BackingToken pair, eg ETH/USD
+   * @return Total value locked of the pool denominated in the quote token of the pair, eg USD
+   */
+  async totalValueLockedAtGivenRate(pool:PoolTestFixture, aggregator:ChainlinkAggregator): Promise<Numberish> {
+    return pool.tempus.asset.fromBigNum(
+      await this.contract.totalValueLockedAtGivenRate(pool.tempus.address, aggregator.address)
+    );
+  }
+
+  /**
+   * @param aggregator Chainlink aggregator of a token pair
+   * @return Latest rate of the pair as a decimal, eg 3500.5
+   */
+  async getRate(aggregator:ChainlinkAggregator): Promise<Numberish> {
+    const { rate, rateDenominator } = await this.contract.getRate(aggregator.address);
+    return formatDecimal(rate, rateDenominator.toString().length - 1);
+  }
+
+  /**
+   * @param aggregator Chainlink aggregator of a token pair
+   * @param maxAge Maximum age of the latest answer in seconds
+   * @return Latest rate of the pair as a decimal, reverts if the answer is older than `maxAge`
+   */
+  async getRateWithMaxAge(aggregator:ChainlinkAggregator, maxAge:number): Promise<Numberish> {
+    const { rate, rateDenominator } = await this.contract.getRateWithMaxAge(aggregator.address, maxAge);
+    return formatDecimal(rate, rateDenominator.toString().length - 1);
+  }
+
+  /**
+   * @param path Chainlink aggregators from the base token to the quote token, eg stETH/ETH and ETH/USD
+   * @return Rate of the first base token in the last quote token as a decimal
+   */
+  async getPathRate(path:ChainlinkHop[]): Promise<Numberish> {
+    const { rate, rateDenominator } = await this.contract.getPathRate(this.toChainlinkPath(path));
+    return formatDecimal(rate, rateDenominator.toString().length - 1);
+  }
+
+  /**
+   * @param path Chainlink aggregators from the BackingToken to the quote token, eg stETH/ETH and ETH/USD
+   * @return Total value locked of the pool denominated in the quote token of the last aggregator
+   */
+  async totalValueLockedAtGivenPath(pool:PoolTestFixture, path:ChainlinkHop[]): Promise<Numberish> {
+    return pool.tempus.asset.fromBigNum(
+      await this.contract.totalValueLockedAtGivenPath(pool.tempus.address, this.toChainlinkPath(path))
+    );
+  }
+
+  private toChainlinkPath(path:ChainlinkHop[]): { aggregator:string, maxAge:BigNumber }[] {
+    return path.map(hop => ({
+      aggregator: hop.aggregator.address,
+      maxAge: (hop.maxAge === undefined) ? constants.MaxUint256 : BigNumber.from(hop.maxAge)
+    }));
+  }
+
   /**
    * @param amount Amount of BackingTokens or YieldBearingTokens that would be deposited
    * @param isBackingToken If true, @param amount is in BackingTokens, otherwise YieldBearingTokens
@@ -136,4 +249,112 @@ export class Stats extends ContractBase {
       lpTokensRedeemed: pool.amm.fromBigNum(r.lpTokensRedeemed)
     };
   }
+
+  /**
+   * @param positionManager PositionManager which holds the position
+   * @param tokenId Id of the position
+   * @param toBackingToken If true, value is estimated in BackingTokens instead of YieldBearingTokens
+   * @return YBT or BT amount received for burning the position
+   */
+  async estimatedPositionValue(
+    pool:PoolTestFixture,
+    positionManager:PositionManager,
+    tokenId:number,
+    toBackingToken:boolean
+  ): Promise<Numberish> {
+    const t = pool.tempus;
+    const p = toBackingToken ? t.asset : t.yieldBearing;
+    return p.fromBigNum(
+      await this.contract.estimatedPositionValue(
+        positionManager.address,
+        tokenId,
+        t.principalShare.decimals == 18 ? t.principalShare.toBigNum("0.00001") : t.principalShare.toBigNum("0.01"),
+        toBackingToken
+      )
+    );
+  }
+
+  /**
+   * @param positionManager PositionManager which holds the positions
+   * @param owner Owner of the positions
+   * @param pools TempusPools of the positions, used for decoding amounts
+   * @param threshold Maximum amount of Principals or Yields to be left in case of early exit, in shares
+   * @return All open positions of the owner with their value in BackingTokens
+   */
+  async positionsOf(
+    positionManager:PositionManager,
+    owner:SignerOrAddress,
+    pools:TempusPool[],
+    threshold:Numberish = "0.01"
+  ): Promise<PositionValue[]> {
+    const positions = await this.contract.positionsOf(positionManager.address, addressOf(owner), toWei(threshold));
+    return positions.map((p:any) => {
+      const pool = pools.filter(pool => pool.address === p.tempusPool)[0];
+      if (!pool) {
+        throw new Error("Unknown TempusPool " + p.tempusPool + " of position " + p.tokenId);
+      }
+      const deposited = new Decimal(p.position.depositedBackingTokens, pool.asset.decimals);
+      const value = new Decimal(p.value, pool.asset.decimals);
+      return {
+        tokenId: p.tokenId.toNumber(),
+        pool: pool,
+        capitals: pool.principalShare.toDecimal(p.position.capitals),
+        yields: pool.yieldShare.toDecimal(p.position.yields),
+        leveraged: !p.position.yields.isZero(),
+        depositedBackingTokens: deposited,
+        value: value,
+        profitLoss: value.sub(deposited)
+      };
+    });
+  }
+
+  /**
+   * @return Implied annualised fixed APR locked in by `depositAndFix` at the current AMM price, eg 0.048 for 4.8%
+   */
+  async impliedFixedAPR(pool:PoolTestFixture): Promise<number> {
+    return +this.fromBigNum(await this.contract.impliedFixedAPR(pool.amm.address, pool.tempus.address));
+  }
+
+  /**
+   * @param amms TempusAMMs of pools with the same YBT
+   * @return Maturity and implied fixed APR of each AMM, in the order of `amms`
+   */
+  async yieldCurve(amms:TempusPoolAMM[]): Promise<YieldCurvePoint[]> {
+    const curve = await this.contract.yieldCurve(amms.map(amm => amm.address));
+    return curve.map((p:any) => {
+      return {
+        pool: p.tempusPool,
+        amm: p.tempusAMM,
+        maturity: new Date(p.maturityTime.toNumber() * 1000),
+        fixedAPR: +this.fromBigNum(p.fixedAPR)
+      };
+    });
+  }
+
+  /**
+   * @param user The user whose holdings are listed
+   * @param pools TempusPools with their TempusAMMs, such as PoolTestFixture
+   * @param threshold Maximum amount of Principals or Yields to be left in case of early exit, in shares
+   * @return Holdings of the user with their value in BackingTokens, in the order of `pools`
+   */
+  async portfolioOf(
+    user:SignerOrAddress,
+    pools:{ tempus:TempusPool, amm:TempusPoolAMM }[],
+    threshold:Numberish = "0.01"
+  ): Promise<Holding[]> {
+    const holdings = await this.contract.portfolioOf(addressOf(user), pools.map(p => p.amm.address), toWei(threshold));
+    return holdings.map((h:any, i:number) => {
+      const t = pools[i].tempus, amm = pools[i].amm;
+      return {
+        pool: t,
+        amm: amm,
+        principals: t.principalShare.toDecimal(h.principals),
+        yields: t.yieldShare.toDecimal(h.yields),
+        lpTokens: amm.toDecimal(h.lpTokens),
+        principalsStaked: t.principalShare.toDecimal(h.principalsStaked),
+        yieldsStaked: t.yieldShare.toDecimal(h.yieldsStaked),
+        value: new Decimal(h.value, t.asset.decimals)
+      };
+    });
+  }
 }
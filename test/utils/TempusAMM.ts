@@ -105,6 +105,15 @@ export class TempusAMM extends ContractBase {
     ));
   }
 
+  /**
+   * @dev Time-weighted average prices over the last `secondsAgo` seconds
+   * @return token0Price Price of token0 denominated in token1, token1Price Price of token1 denominated in token0
+   */
+  async consult(secondsAgo: number): Promise<{token0Price:Numberish, token1Price:Numberish}> {
+    const { token0Price, token1Price } = await this.contract.consult(secondsAgo);
+    return {token0Price: this.fromBigNum(token0Price), token1Price: this.fromBigNum(token1Price)};
+  }
+
   async provideLiquidity(from: Signer, token0Balance: Number, token1Balance: Number): Promise<void> {
     await this.token0.approve(from, this.address, token0Balance);
     await this.token1.approve(from, this.address, token1Balance);
@@ -1,7 +1,11 @@
-import { Contract, Transaction } from "ethers";
+import { artifacts } from "hardhat";
+import { BigNumber, Contract, Transaction, utils } from "ethers";
 import { Numberish, toWei } from "./DecimalUtils";
 import { ContractBase, Signer, SignerOrAddress, addressOf } from "./ContractBase";
+import { ERC20Ether } from "./ERC20Ether";
+import { IERC20 } from "./IERC20";
 import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
 import { PoolTestFixture } from "../pool-utils/PoolTestFixture";
 
 /**
@@ -265,7 +269,264 @@ export class TempusController extends ContractBase {
     );
   }
   
+  /**
+   * Atomically redeems shares and LP tokens of a matured pool and deposits the redeemed YBT to the next pool
+   * @param user The user whose shares and LP tokens are rolled over
+   * @param matured The matured TempusPool
+   * @param maturedAMM TempusAMM of the matured pool, to exit `lpTokens` from
+   * @param next The next TempusPool with the same YBT
+   * @param nextAMM TempusAMM of the next pool, used to swap TYS for TPS if `fix` is set
+   * @param lpTokens Amount of LP tokens to exit
+   * @param principals Amount of TPS to redeem
+   * @param yields Amount of TYS to redeem
+   * @param fix Swaps all TYS minted by the next pool for TPS to get a fixed rate
+   * @param minTYSRate Minimum TYS rate (denominated in TPS) to receive in exchange to TPS
+   * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
+   */
+  async rollover(
+    user: SignerOrAddress,
+    matured: TempusPool,
+    maturedAMM: TempusPoolAMM,
+    next: TempusPool,
+    nextAMM: TempusPoolAMM,
+    lpTokens: Numberish,
+    principals: Numberish,
+    yields: Numberish,
+    fix: boolean = false,
+    minTYSRate: Numberish = 0,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<Transaction> {
+    await maturedAMM.connect(user).approve(this.address, maturedAMM.toBigNum(lpTokens));
+    await matured.principalShare.approve(user, this.address, principals);
+    await matured.yieldShare.approve(user, this.address, yields);
+    return this.connect(user).rollover({
+      maturedPool: matured.address,
+      maturedAMM: maturedAMM.address,
+      nextPool: next.address,
+      nextAMM: nextAMM.address,
+      lpTokens: maturedAMM.toBigNum(lpTokens),
+      principals: matured.principalShare.toBigNum(principals),
+      yields: matured.yieldShare.toBigNum(yields),
+      minPrincipalsStaked: 0,
+      minYieldsStaked: 0,
+      fix: fix,
+      minTYSRate: next.asset.toBigNum(minTYSRate),
+      deadline: parseInt((deadline.getTime() / 1000).toFixed(0))
+    });
+  }
+
   async supportsInterface(interfaceId: string): Promise<Boolean> {
     return this.contract.supportsInterface(interfaceId);
   }
+
+  /**
+   * Starts building a multicall, which executes several controller calls atomically in one transaction
+   * @param user The user on whose behalf the calls are executed
+   */
+  multicall(user:SignerOrAddress): ControllerMulticall {
+    return new ControllerMulticall(this, user);
+  }
+}
+
+/**
+ * Thrown by `ControllerMulticall.execute()` if one of the calls reverts
+ */
+export class MulticallError extends Error {
+  index:number; // index of the failed call
+  call:string; // description of the failed call, eg "depositBacking(0x1234...)"
+  reason:string; // revert reason string, or ":ErrorName" for custom errors
+
+  constructor(index:number, call:string, reason:string) {
+    super(`multicall call #${index} ${call} reverted: ${reason}`);
+    Object.setPrototypeOf(this, MulticallError.prototype);
+    this.index = index;
+    this.call = call;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Builder for TempusController.multicall
+ * Composes deposits, liquidity provision and fixing across several pools into a single transaction,
+ * approving the total amount of each token once.
+ */
+export class ControllerMulticall {
+  private controller:TempusController;
+  private user:SignerOrAddress;
+  private calls:{ data:string, value:BigNumber, description:string }[] = [];
+  private approvals:{ token:IERC20, amount:BigNumber }[] = [];
+
+  constructor(controller:TempusController, user:SignerOrAddress) {
+    this.controller = controller;
+    this.user = user;
+  }
+
+  /**
+   * Adds a raw call of any TempusController function
+   * @param functionName Name of the TempusController function
+   * @param args Arguments in contract decimals
+   * @param value ETH value used by this call
+   */
+  add(functionName:string, args:any[], value:BigNumber = BigNumber.from(0)): ControllerMulticall {
+    this.calls.push({
+      data: this.controller.contract.interface.encodeFunctionData(functionName, args),
+      value: value,
+      description: `${functionName}(${args.join(", ")})`
+    });
+    return this;
+  }
+
+  /**
+   * Adds a deposit of Backing Tokens, ETH is sent as call value
+   */
+  depositBacking(pool:TempusPool, backingAmount:Numberish, recipient:SignerOrAddress = this.user): ControllerMulticall {
+    const amount = this.collect(pool, backingAmount, /*isBackingToken*/true);
+    return this.add("depositBacking", [pool.address, amount, addressOf(recipient)], this.etherValue(pool, amount, true));
+  }
+
+  /**
+   * Adds a deposit of Yield Bearing Tokens
+   */
+  depositYieldBearing(pool:TempusPool, yieldBearingAmount:Numberish, recipient:SignerOrAddress = this.user): ControllerMulticall {
+    const amount = this.collect(pool, yieldBearingAmount, /*isBackingToken*/false);
+    return this.add("depositYieldBearing", [pool.address, amount, addressOf(recipient)]);
+  }
+
+  /**
+   * Adds a deposit of BT/YBT and provides liquidity with the minted shares to the pool's Tempus AMM
+   */
+  depositAndProvideLiquidity(pool:PoolTestFixture, tokenAmount:Numberish, isBackingToken:boolean): ControllerMulticall {
+    const amount = this.collect(pool.tempus, tokenAmount, isBackingToken);
+    return this.add(
+      "depositAndProvideLiquidity",
+      [pool.amm.address, pool.tempus.address, amount, isBackingToken],
+      this.etherValue(pool.tempus, amount, isBackingToken)
+    );
+  }
+
+  /**
+   * Adds a deposit of BT/YBT and swaps the minted Yields for Principals to get fixed yield
+   * @param minTYSRate Minimum TYS rate (denominated in TPS) to receive in exchange to TPS
+   * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
+   */
+  depositAndFix(
+    pool:PoolTestFixture,
+    tokenAmount:Numberish,
+    isBackingToken:boolean,
+    minTYSRate:Numberish,
+    deadline:Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): ControllerMulticall {
+    const amount = this.collect(pool.tempus, tokenAmount, isBackingToken);
+    return this.add(
+      "depositAndFix",
+      [
+        pool.amm.address,
+        pool.tempus.address,
+        amount,
+        isBackingToken,
+        pool.tempus.asset.toBigNum(minTYSRate),
+        parseInt((deadline.getTime() / 1000).toFixed(0))
+      ],
+      this.etherValue(pool.tempus, amount, isBackingToken)
+    );
+  }
+
+  /**
+   * Approves all deposited tokens and executes the calls in a single transaction
+   * @throws MulticallError with the index and revert reason of the failed call
+   */
+  async execute(): Promise<Transaction> {
+    for (const approval of this.approvals) {
+      await approval.token.approve(this.user, this.controller.address, approval.amount);
+    }
+
+    const calls = this.calls.map(c => ({ data: c.data, value: c.value }));
+    const value = this.calls.reduce((sum, c) => sum.add(c.value), BigNumber.from(0));
+    const controller = this.controller.connect(this.user);
+
+    // simulate first, so a failed call can be identified from the revert data
+    try {
+      await controller.callStatic.multicall(calls, { value: value });
+    } catch (e) {
+      throw await this.decodeError(e);
+    }
+    return controller.multicall(calls, { value: value });
+  }
+
+  /** @returns Deposit amount in contract decimals, which is added to the token approvals */
+  private collect(pool:TempusPool, tokenAmount:Numberish, isBackingToken:boolean): BigNumber {
+    const token = isBackingToken ? pool.asset : pool.yieldBearing;
+    const amount = token.toBigNum(tokenAmount);
+    if (token instanceof ERC20Ether) {
+      return amount; // ETH is sent as call value
+    }
+
+    for (const approval of this.approvals) {
+      if (approval.token.address === token.address) {
+        approval.amount = approval.amount.add(amount);
+        return amount;
+      }
+    }
+    this.approvals.push({ token: token, amount: amount });
+    return amount;
+  }
+
+  private etherValue(pool:TempusPool, amount:BigNumber, isBackingToken:boolean): BigNumber {
+    return (isBackingToken && pool.asset instanceof ERC20Ether) ? amount : BigNumber.from(0);
+  }
+
+  /** @returns MulticallError if the failed call can be identified, otherwise the original error */
+  private async decodeError(e:any): Promise<Error> {
+    const failed = findMulticallFailure(e);
+    if (!failed) {
+      return e;
+    }
+    const reason = await decodeRevertReason(failed.reason);
+    return new MulticallError(failed.index, this.calls[failed.index].description, reason);
+  }
+}
+
+const MULTICALL_FAILED = utils.id("MulticallFailed(uint256,bytes)").slice(0, 10);
+const ERROR_STRING = utils.id("Error(string)").slice(0, 10);
+const PANIC_UINT = utils.id("Panic(uint256)").slice(0, 10);
+
+/** @returns Index and revert data of the failed call from a reverted multicall */
+function findMulticallFailure(e:any): { index:number, reason:string }|null {
+  // revert data can be nested differently depending on the provider
+  for (let err = e; err; err = err.error) {
+    const data = (typeof(err.data) === "string") ? err.data : (err.data && err.data.data);
+    if (typeof(data) === "string" && data.startsWith(MULTICALL_FAILED)) {
+      const [index, reason] = utils.defaultAbiCoder.decode(["uint256", "bytes"], "0x" + data.slice(10));
+      return { index: index.toNumber(), reason: reason };
+    }
+  }
+
+  // Hardhat network reports custom errors only in the message
+  const match = /custom error 'MulticallFailed\((\d+), "(0x[0-9a-fA-F]*)"\)'/.exec(e.message || "");
+  return match ? { index: parseInt(match[1]), reason: match[2] } : null;
+}
+
+/** @returns Revert reason string, ":ErrorName" for custom errors of Tempus contracts, or the raw revert data */
+async function decodeRevertReason(data:string): Promise<string> {
+  const selector = data.slice(0, 10);
+  if (selector === ERROR_STRING) {
+    return utils.defaultAbiCoder.decode(["string"], "0x" + data.slice(10))[0];
+  }
+  if (selector === PANIC_UINT) {
+    return "Panic(" + utils.defaultAbiCoder.decode(["uint256"], "0x" + data.slice(10))[0].toHexString() + ")";
+  }
+
+  for (const contractName of ["ITempusController", "ITempusPool", "ITempusAMM", "Stats"]) {
+    const abi = (await artifacts.readArtifact(contractName)).abi;
+    for (const fragment of abi) {
+      if (fragment.type !== "error") {
+        continue;
+      }
+      const inputs = fragment.inputs.map((input:any) => utils.ParamType.from(input).format("sighash"));
+      if (utils.id(`${fragment.name}(${inputs.join(",")})`).slice(0, 10) === selector) {
+        return ":" + fragment.name;
+      }
+    }
+  }
+  return (data === "0x") ? "reverted without a reason" : data;
 }
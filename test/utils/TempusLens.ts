@@ -0,0 +1,102 @@
+import { BigNumber, Contract } from "ethers";
+import { Decimal } from "./Decimal";
+import { MAX_UINT256 } from "./DecimalUtils";
+import { ContractBase } from "./ContractBase";
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+
+/**
+ * Decoded state of a TempusAMM
+ */
+export interface AMMState {
+  amm:TempusPoolAMM;
+  principals:Decimal; // Principals held by the AMM
+  yields:Decimal; // Yields held by the AMM
+  lpTotalSupply:Decimal;
+  swapFeePercentage:Decimal; // eg 0.02 for 2%
+  amplification:number; // raw amplification value, eg 5
+  amplificationUpdating:boolean;
+}
+
+/**
+ * Decoded state of a TempusPool and its TempusAMM
+ */
+export interface PoolState {
+  pool:TempusPool;
+  startTime:Date;
+  maturityTime:Date;
+  exceptionalHaltTime:Date|null; // null if the pool was not halted
+  matured:boolean;
+  initialInterestRate:Decimal;
+  currentInterestRate:Decimal;
+  pricePerPrincipalShare:Decimal; // in BackingTokens
+  pricePerYieldShare:Decimal; // in BackingTokens
+  fees:{ depositPercent:Decimal, earlyRedeemPercent:Decimal, matureRedeemPercent:Decimal };
+  totalFees:Decimal; // accumulated fees in YieldBearingTokens
+  totalValueLocked:Decimal; // in BackingTokens
+  amm:AMMState|null; // null if no AMM was given for the pool
+}
+
+/**
+ * Wrapper around TempusLens
+ */
+export class TempusLens extends ContractBase {
+  constructor(contract:Contract) {
+    super("TempusLens", 18, contract);
+  }
+
+  static async create(): Promise<TempusLens> {
+    return new TempusLens(await ContractBase.deployContract("TempusLens"));
+  }
+
+  /**
+   * Loads the state of multiple pools in a single call
+   * @param pools TempusPools to query
+   * @param amms TempusAMM of each pool, or null to skip the AMM state of that pool
+   * @return Decoded state of each pool, in the order of `pools`
+   */
+  async poolStates(pools:TempusPool[], amms:TempusPoolAMM[]): Promise<PoolState[]> {
+    const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+    const states = await this.contract.poolStates(
+      pools.map(pool => pool.address),
+      amms.map(amm => amm ? amm.address : ZERO_ADDRESS)
+    );
+    return states.map((s:any, i:number) => decodePoolState(s, pools[i], amms[i]));
+  }
+}
+
+function toDate(timestamp:BigNumber): Date {
+  return new Date(timestamp.toNumber() * 1000);
+}
+
+function decodePoolState(s:any, pool:TempusPool, amm:TempusPoolAMM): PoolState {
+  const ybt = pool.yieldBearing.decimals;
+  const bt = pool.asset.decimals;
+  return {
+    pool: pool,
+    startTime: toDate(s.startTime),
+    maturityTime: toDate(s.maturityTime),
+    exceptionalHaltTime: s.exceptionalHaltTime.toHexString() === MAX_UINT256 ? null : toDate(s.exceptionalHaltTime),
+    matured: s.matured,
+    initialInterestRate: new Decimal(s.initialInterestRate, pool.exchangeRatePrec),
+    currentInterestRate: new Decimal(s.currentInterestRate, pool.exchangeRatePrec),
+    pricePerPrincipalShare: new Decimal(s.pricePerPrincipalShare, bt),
+    pricePerYieldShare: new Decimal(s.pricePerYieldShare, bt),
+    fees: {
+      depositPercent: new Decimal(s.feesConfig.depositPercent, ybt),
+      earlyRedeemPercent: new Decimal(s.feesConfig.earlyRedeemPercent, ybt),
+      matureRedeemPercent: new Decimal(s.feesConfig.matureRedeemPercent, ybt)
+    },
+    totalFees: new Decimal(s.totalFees, ybt),
+    totalValueLocked: new Decimal(s.totalValueLocked, bt),
+    amm: amm ? {
+      amm: amm,
+      principals: pool.principalShare.toDecimal(s.amm.principals),
+      yields: pool.yieldShare.toDecimal(s.amm.yields),
+      lpTotalSupply: amm.toDecimal(s.amm.lpTotalSupply),
+      swapFeePercentage: new Decimal(s.amm.swapFeePercentage, 18),
+      amplification: s.amm.amplification.toNumber() / s.amm.amplificationPrecision.toNumber(),
+      amplificationUpdating: s.amm.amplificationUpdating
+    } : null
+  };
+}
@@ -1,20 +1,14 @@
 import { BigNumber, BytesLike, Contract, Transaction } from "ethers";
 import { Decimal } from "./Decimal";
-import { Numberish, toWei, parseDecimal, formatDecimal, MAX_UINT256 } from "./DecimalUtils";
+import { Numberish, toWei, fromWei, parseDecimal, formatDecimal, MAX_UINT256 } from "./DecimalUtils";
 import { ContractBase, Signer, SignerOrAddress, addressOf } from "./ContractBase";
 import { ERC20 } from "./ERC20";
 import { IERC20 } from "./IERC20";
 import { PoolShare, ShareKind } from "./PoolShare";
 import { TempusController } from "./TempusController";
+import { PoolType, getProtocol } from "../pool-utils/ProtocolRegistry";
 
-export enum PoolType {
-  None = "None",
-  Aave = "Aave",
-  Lido = "Lido",
-  Compound = "Compound",
-  Yearn = "Yearn",
-  Rari = "Rari"
-}
+export { PoolType };
 
 export interface TempusSharesNames {
   principalName: string;
@@ -218,6 +212,30 @@ export class TempusPool extends ContractBase {
    );
  }
 
+  /**
+   * Deploys MapleTempusPool
+   * @param owner Owner who deploys TempusPool and also deployed Controller
+   * @param asset The underlying backing token, Maple Pool's Liquidity Asset (e.g. - USDC, DAI)
+   * @param yieldToken The yield bearing token, which is the Maple Pool itself (PoolFDT)
+   * @param controller The Tempus Controller address to bind to the TempusPool
+   * @param maturityTime Maturity time of the pool
+   * @param estimatedYield Initial estimated APR
+   * @param tempusShareNames Symbol names for TPS+TYS
+   */
+  static async deployMaple(
+    owner:Signer,
+    asset:IERC20,
+    yieldToken:ERC20,
+    controller:TempusController,
+    maturityTime:number,
+    estimatedYield:number,
+    tempusShareNames:TempusSharesNames
+  ): Promise<TempusPool> {
+    return TempusPool.deploy(
+      PoolType.Maple, owner, controller, asset, yieldToken, maturityTime, estimatedYield, tempusShareNames
+    );
+  }
+
   static async deploy(
     type:PoolType,
     owner:Signer,
@@ -229,135 +247,40 @@ export class TempusPool extends ContractBase {
     shareNames:TempusSharesNames,
     underlyingProtocolContractAddress: string = null
   ): Promise<TempusPool> {
-    let exchangeRatePrec:number;
-    let pool:Contract = null;
-
-    if (type === PoolType.Aave) {
-      exchangeRatePrec = 18; // AaveTempusPool converts 1e27 LiquidityIndex to 1e18 interestRate
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
+    const protocol = getProtocol(type);
+
+    const exchangeRatePrec:number = protocol.exchangeRatePrecision(asset.decimals);
+    const pool:Contract = await ContractBase.deployContractBy(
+      type + "TempusPool",
+      owner,
+      ...protocol.deployArgs({
+        yieldToken: yieldToken.address,
+        asset: (asset as ERC20).address,
+        controller: controller.address,
+        maturityTime: maturityTime,
+        exchangeRatePrec: exchangeRatePrec,
+        estimatedYield: parseDecimal(estimatedYield, exchangeRatePrec),
+        principalsData: {
           name: shareNames.principalName, 
           symbol: shareNames.principalSymbol
         },
-        /*yieldsData*/{
+        yieldsData: {
           name: shareNames.yieldName, 
           symbol: shareNames.yieldSymbol
         },
-        /*maxFeeSetup:*/{
+        maxFeeSetup: {
           depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
           earlyRedeemPercent:  yieldToken.toBigNum(1.0),
           matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else if (type === PoolType.Lido) {
-      exchangeRatePrec = 18; // Lido is always 1e18 thanks to ETH
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
         },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        },
-        "0x0000000000000000000000000000000000000000" /* hardcoded referrer */
-      );
-    } else if (type === PoolType.Compound) {
-      exchangeRatePrec = (10 + asset.decimals); // exchange rate precision = 18 - 8 + Underlying Token Decimals
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(1.0, exchangeRatePrec),
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else if (type === PoolType.Yearn) {
-      exchangeRatePrec = asset.decimals; // exchange rate precision = Underlying Token Decimals
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else if (type === PoolType.Rari) {
-      exchangeRatePrec = 18; // exchange rate precision = Always 18
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        underlyingProtocolContractAddress,
-        (asset as ERC20).address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else {
-      throw new Error("Unsupported PoolType "+type+" TempusPool.deploy failed");
-    }
+        underlyingProtocol: underlyingProtocolContractAddress
+      })
+    );
 
     // NOTE: Principals and Yields always have BackingToken precision
     const tps = await PoolShare.attach(ShareKind.Principal, await pool.principalShare(), asset.decimals);
     const tys = await PoolShare.attach(ShareKind.Yield, await pool.yieldShare(), asset.decimals);
-    const tempusPool = new TempusPool(type, owner, pool!, controller, asset, yieldToken, tps, tys, exchangeRatePrec);
+    const tempusPool = new TempusPool(type, owner, pool, controller, asset, yieldToken, tps, tys, exchangeRatePrec);
     await controller.register(owner, tempusPool.address);
     return tempusPool;
   }
@@ -505,6 +428,31 @@ export class TempusPool extends ContractBase {
     return this.currentInterestRate();
   }
 
+  /**
+   * @returns Moving average of the Interest Rate used to estimate the yield at maturity,
+   *          equal to the current Interest Rate if the moving average is disabled
+   */
+  async interestRateAverage(): Promise<Numberish> {
+    return formatDecimal(await this.contract.interestRateAverage(), this.exchangeRatePrec);
+  }
+
+  /**
+   * @returns Weight of new Interest Rates in the moving average (0 if disabled) and the update interval in seconds
+   */
+  async interestRateAverageConfig(): Promise<{ newValueWeight:Numberish, updateInterval:number }> {
+    const { newValueWeight, updateInterval } = await this.contract.interestRateAverageConfig();
+    return { newValueWeight: fromWei(newValueWeight), updateInterval: updateInterval.toNumber() };
+  }
+
+  /**
+   * Configures the Interest Rate moving average
+   * @param newValueWeight Weight of new Interest Rates, such as 0.1, 0 disables the moving average
+   * @param updateInterval Minimum time between moving average updates in seconds
+   */
+  async setInterestRateAverageConfig(owner:SignerOrAddress, newValueWeight:Numberish, updateInterval:number): Promise<void> {
+    await this.contract.connect(owner).setInterestRateAverageConfig(toWei(newValueWeight), updateInterval);
+  }
+
   /**
    * @returns Interest rate at maturity of the pool
    */
@@ -591,6 +539,35 @@ export class TempusPool extends ContractBase {
     await this.contract.connect(owner).transferFees(addressOf(recipient));
   }
 
+  /**
+   * MAPLE ONLY: Requests withdrawal from Maple, starting the withdraw cooldown. Caller must be owner.
+   */
+  async intendToWithdraw(owner:SignerOrAddress): Promise<Transaction> {
+    return this.contract.connect(owner).intendToWithdraw();
+  }
+
+  /**
+   * MAPLE ONLY: Claims interest accrued in Maple, which is held by the pool as BackingTokens
+   * @returns Amount of claimed interest in BackingTokens
+   */
+  async claimInterest(caller:SignerOrAddress): Promise<Numberish> {
+    const claimed:BigNumber = await this.contract.connect(caller).callStatic.claimInterest();
+    await this.contract.connect(caller).claimInterest();
+    return this.asset.fromBigNum(claimed);
+  }
+
+  /**
+   * MAPLE ONLY
+   * @returns Start and end timestamps of Maple's withdraw window, or null if withdrawal was not requested
+   */
+  async withdrawWindow(): Promise<{ start:number, end:number } | null> {
+    const window = await this.contract.withdrawWindow();
+    if (window.windowStart.isZero()) {
+      return null;
+    }
+    return { start: window.windowStart.toNumber(), end: window.windowEnd.toNumber() };
+  }
+
   async supportsInterface(interfaceId: string): Promise<Boolean> {
     return this.contract.supportsInterface(interfaceId);
   }
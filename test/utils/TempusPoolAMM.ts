@@ -56,6 +56,14 @@ export class TempusPoolAMM extends TempusAMM {
     return {principalsOut: +p.token0Out, yieldsOut: +p.token1Out};
   }
 
+  /**
+   * @return Time-weighted average price of Principals in Yields and of Yields in Principals
+   */
+  async consultPY(secondsAgo: number): Promise<{principalPrice:number, yieldPrice:number}> {
+    const p = await super.consult(secondsAgo);
+    return {principalPrice: +p.token0Price, yieldPrice: +p.token1Price};
+  }
+
   async getLPTokensOutForTokensIn(principalsAmountIn:Numberish, yieldsAmountIn:Numberish): Promise<Numberish> {
     return super.getLPTokensOutForTokensIn(principalsAmountIn, yieldsAmountIn);
   }
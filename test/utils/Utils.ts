@@ -30,9 +30,13 @@ export async function evmSetAutomine(automine: boolean): Promise<void> {
  */
 export async function evmMineInSingleBlock(fn: ()=>Promise<void>): Promise<void> {
   await evmSetAutomine(false);
-  await fn();
-  await evmMine();
-  await evmSetAutomine(true);
+  try {
+    await fn();
+  } finally {
+    // restore automining even if `fn` failed, otherwise all following transactions would hang
+    await evmMine();
+    await evmSetAutomine(true);
+  }
 }
 
 /**